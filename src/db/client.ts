@@ -1,5 +1,6 @@
 import { Pool, Connection } from 'ibm_db';
 import {
+  BatchStatement,
   Db2AuthOptions,
   IClient,
   IConfigOptions,
@@ -8,6 +9,10 @@ import {
   Db2HealthDetails,
   Db2PoolStats,
   IPoolManager,
+  IdentifierOptions,
+  PaginationOptions,
+  SqlTag,
+  StreamOptions,
 } from '../interfaces';
 import { Db2ConnectionState } from '../enums';
 import {
@@ -18,10 +23,13 @@ import {
 } from '../errors';
 import { AuthStrategy } from '../auth/auth.strategy';
 import { IConnectionManager } from '../interfaces/connection-mannager.interface';
-import { Logger } from '../utils';
+import { formatSql, Logger, toPositionalStatement } from '../utils';
 import { MigrationService } from '../services/migration.service';
 import { MetadataManager } from '../orm/metadata';
+import { TemporalMetadata, TemporalTableState } from '../orm/interfaces';
 import { ConfigManager } from './config.manager';
+import { createSqlTag } from './sql-template';
+import { buildCompoundStatement } from './compound-statement';
 
 export class Client implements IClient {
   protected readonly config: IConfigOptions;
@@ -42,6 +50,18 @@ export class Client implements IClient {
   private migrationService: MigrationService;
   private metadataManager: MetadataManager;
 
+  /**
+   * Template tag for parameterized statements. Interpolated values are bound
+   * as parameters, never inserted into the SQL text.
+   *
+   * @example
+   * ```ts
+   * const users = await client.sql<User>`SELECT * FROM users WHERE id = ${id}`.execute();
+   * const byName = client.sql`ORDER BY ${client.sql.identifier(column)}`;
+   * ```
+   */
+  public readonly sql: SqlTag = createSqlTag(this);
+
   public constructor(
     private readonly configManager: ConfigManager,
     private readonly connectionManager: IConnectionManager,
@@ -278,6 +298,83 @@ export class Client implements IClient {
     this.logger.info('Connection released back to the pool.');
   }
 
+  /**
+   * Rejects with a timeout error if an operation takes longer than `timeout`
+   * milliseconds, as `query` does.
+   */
+  private withTimeout<T>(operation: Promise<T>, timeout: number): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const expired = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        reject(new Db2ConnectionError('Query execution timed out'));
+      }, timeout);
+    });
+    return Promise.race([operation, expired]).finally(() =>
+      clearTimeout(timer),
+    );
+  }
+
+  /**
+   * Fetches up to `count` rows from an open result set. The driver returns
+   * one row per call, and no further row is fetched once `stopped` is true.
+   */
+  private async fetchRows<T>(
+    result: any,
+    count: number,
+    stopped: () => boolean = () => false,
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    while (rows.length < count && !stopped()) {
+      const row = await new Promise<T | null>((resolve, reject) => {
+        result.fetch((err: Error, data: T | null) => {
+          if (err) {
+            this.logger.error('Error fetching row', err.message);
+            reject(new Db2Error('Failed to fetch row'));
+          } else {
+            resolve(data);
+          }
+        });
+      });
+      if (!row) {
+        break;
+      }
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /**
+   * Closes a result set, logging rather than throwing on failure so the
+   * connection is still released.
+   */
+  private async closeResult(result: any): Promise<void> {
+    await new Promise<void>((resolve) => {
+      result.close((err: Error) => {
+        if (err) {
+          this.logger.warn(`Failed to close result set: ${err.message}`);
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Renders a statement for the query log. With `logging.logQueries` on, the
+   * statement is formatted according to `logging.queryFormat`; a statement
+   * that cannot be formatted is logged as written.
+   */
+  private describeQuery(sql: string, params: any[]): string {
+    const { logQueries, queryFormat } = this.config.logging ?? {};
+    if (!logQueries || !queryFormat) {
+      return sql;
+    }
+    try {
+      return formatSql(sql, params, queryFormat);
+    } catch {
+      return sql;
+    }
+  }
+
   /**
    * Reconnect logic for the Db2 client.
    * Attempts to re-establish a connection using the existing configuration.
@@ -314,18 +411,27 @@ export class Client implements IClient {
 
   /**
    * Executes a SQL query against the Db2 database.
-   * @param sql The SQL query string to execute.
-   * @param params An array of parameters to bind to the query.
+   * @param sql The SQL query string to execute, with `?` or `:name` markers.
+   * @param params An array of parameters for `?` markers, or an object of
+   * parameters by name for `:name` markers.
    * @returns A promise that resolves with the result of the query.
+   *
+   * @example
+   * ```ts
+   * await client.query('SELECT * FROM users WHERE id = :id OR manager_id = :id', { id: 7 });
+   * ```
    */
   public async query<T>(
     sql: string,
     params: Record<string, any> = [],
     timeout?: number,
   ): Promise<T> {
+    const statement = toPositionalStatement(sql, params);
     const connection = await this.getConnection();
     try {
-      this.logger.info(`Executing query: ${sql}`);
+      this.logger.info(
+        `Executing query: ${this.describeQuery(statement.sql, statement.params)}`,
+      );
 
       return new Promise<T>((resolve, reject) => {
         // Apply a query timeout if provided
@@ -333,20 +439,145 @@ export class Client implements IClient {
           reject(new Db2ConnectionError('Query execution timed out'));
         }, timeout || this.config.queryTimeout);
 
-        connection.query(sql, params, (err: Error, result: T) => {
-          clearTimeout(queryTimeout); // Clear the timeout once the query resolves
-          if (err) {
-            this.logger.error('Error executing query', err.message);
-            reject(new Db2ConnectionError('Failed to execute query'));
-          } else {
-            resolve(result);
-          }
-        });
+        connection.query(
+          statement.sql,
+          statement.params,
+          (err: Error, result: T) => {
+            clearTimeout(queryTimeout); // Clear the timeout once the query resolves
+            if (err) {
+              this.logger.error('Error executing query', err.message);
+              reject(new Db2ConnectionError('Failed to execute query'));
+            } else {
+              resolve(result);
+            }
+          },
+        );
       });
     } finally {
       await this.closeConnection(connection);
     }
   }
+  /**
+   * Executes a SQL query and yields its rows as they are fetched, instead of
+   * buffering the whole result set. Rows are fetched in batches of
+   * `fetchSize`, one driver call per row, and the next batch is only fetched
+   * once the consumer has taken the previous one. The query timeout applies
+   * to running the query and to fetching each batch, not to the time the
+   * consumer takes. The result set is closed and the connection released
+   * when iteration completes, fails or is stopped early, e.g. by `break` in a
+   * `for await` loop; after a timeout, once the running driver call returns.
+   * @param sql The SQL query string to execute, with `?` or `:name` markers.
+   * @param params An array of parameters, or an object of parameters by name.
+   * @param options The number of rows to fetch per batch and the timeout.
+   * @returns An async iterator over the rows.
+   */
+  public async *stream<T = any>(
+    sql: string,
+    params: any[] | Record<string, any> = [],
+    options: StreamOptions = {},
+  ): AsyncGenerator<T, void, undefined> {
+    const statement = toPositionalStatement(sql, params);
+    const fetchSize = options.fetchSize ?? this.config.fetchSize ?? 100;
+    const timeout = options.timeout ?? this.config.queryTimeout;
+    if (!Number.isInteger(fetchSize) || fetchSize < 1) {
+      throw new Error(
+        `Invalid fetchSize '${fetchSize}': expected a positive integer.`,
+      );
+    }
+
+    const connection = await this.getConnection();
+    let result: any;
+    // A driver call that failed or timed out, which may still be using the
+    // connection or the result set.
+    let pending: Promise<unknown> | undefined;
+    let failed = false;
+    const run = <R>(operation: Promise<R>): Promise<R> => {
+      pending = operation;
+      return this.withTimeout(operation, timeout).then(
+        (value) => {
+          pending = undefined;
+          return value;
+        },
+        (error) => {
+          failed = true;
+          throw error;
+        },
+      );
+    };
+    try {
+      this.logger.info(
+        `Streaming query: ${this.describeQuery(statement.sql, statement.params)}`,
+      );
+      result = await run(
+        new Promise<any>((resolve, reject) => {
+          connection.queryResult(
+            statement.sql,
+            statement.params,
+            (err: Error, res: any) => {
+              if (err) {
+                this.logger.error('Error executing query', err.message);
+                reject(new Db2ConnectionError('Failed to execute query'));
+              } else {
+                resolve(res);
+              }
+            },
+          );
+        }),
+      );
+
+      // Statements without a result set yield no rows.
+      if (!result) {
+        return;
+      }
+
+      let batch: T[];
+      do {
+        batch = await run(this.fetchRows<T>(result, fetchSize, () => failed));
+        for (const row of batch) {
+          yield row;
+        }
+      } while (batch.length === fetchSize);
+    } finally {
+      if (pending) {
+        // A query that timed out may still open a result set.
+        const settled = await pending.catch(() => undefined);
+        result ??= settled;
+      }
+      if (result) {
+        await this.closeResult(result);
+      }
+      await this.closeConnection(connection);
+    }
+  }
+
+  /**
+   * Executes DML statements as one compound SQL block, `BEGIN ATOMIC ... END`:
+   * a single round trip on one pooled connection, in which either every
+   * statement takes effect or none does.
+   * @param statements INSERT, UPDATE, DELETE or MERGE statements: raw SQL
+   * with its parameters, `sql` tag fragments or query builders.
+   * @param timeout An optional timeout for the whole batch.
+   *
+   * @example
+   * ```ts
+   * await client.batch([
+   *   client.sql`INSERT INTO orders (id, customer_id) VALUES (${orderId}, ${customerId})`,
+   *   new QueryBuilder('order_items', client).insertInto('order_items', ['order_id', 'sku'], items),
+   *   { sql: 'UPDATE stock SET qty = qty - :qty WHERE sku = :sku', params: { qty: 1, sku: 'A1' } },
+   * ]);
+   * ```
+   */
+  public async batch(
+    statements: BatchStatement[],
+    timeout?: number,
+  ): Promise<void> {
+    const statement = buildCompoundStatement(statements);
+    this.logger.info(
+      `Executing atomic batch of ${statements.length} statements`,
+    );
+    await this.query(statement.sql, statement.params, timeout);
+  }
+
   /**
    * Executes a batch insert operation on the Db2 database.
    * @param tableName The name of the table to insert into.
@@ -383,7 +614,9 @@ export class Client implements IClient {
     sql: string,
     params: any[] = [],
   ): Promise<T> {
-    this.logger.info(`Executing prepared statement: ${sql}`);
+    this.logger.info(
+      `Executing prepared statement: ${this.describeQuery(sql, params)}`,
+    );
     if (!this.connection) {
       this.logger.warn(
         'No active connection to execute the prepared statement. Attempting to reconnect...',
@@ -530,6 +763,23 @@ export class Client implements IClient {
     }
   }
 
+  /**
+   * Returns the dialect settings used by query builders to render pagination.
+   */
+  public getPaginationOptions(): PaginationOptions {
+    return {
+      dialect: this.config.dialect,
+      strategy: this.config.paginationStrategy,
+    };
+  }
+
+  /**
+   * Returns the identifier settings used by query builders and models.
+   */
+  public getIdentifierOptions(): IdentifierOptions {
+    return { strict: this.config.strictIdentifiers ?? false };
+  }
+
   /**
    * Logs the current pool status, including active and idle connections.
    */
@@ -706,6 +956,43 @@ export class Client implements IClient {
 
       // Execute the generated SQL
       await this.query(createTableSQL);
+
+      // Add system-period versioning to temporal tables
+      const [temporal] = tableMetadata.temporal ?? [];
+      if (temporal) {
+        await this.migrateTemporalTable(tableMetadata.tableName, temporal);
+      }
+    }
+  }
+
+  /**
+   * Adds system-period versioning to a table in the current schema. The Db2
+   * catalog is read first and only the missing parts are added, each with its
+   * own statement, so the migration can run again on a versioned table.
+   * @param tableName The table to version.
+   * @param temporal The history table and period column names.
+   */
+  public async migrateTemporalTable(
+    tableName: string,
+    temporal: TemporalMetadata,
+  ): Promise<void> {
+    const [row] = await this.query<Record<string, any>[]>(
+      this.migrationService.generateTemporalStateSQL(),
+      { tableName, ...temporal },
+    );
+    const state = Object.fromEntries(
+      Object.entries(row ?? {}).map(([part, count]) => [
+        part,
+        Number(count) > 0,
+      ]),
+    ) as Partial<TemporalTableState>;
+
+    for (const statement of this.migrationService.generateTemporalTableSQL(
+      tableName,
+      temporal,
+      state,
+    )) {
+      await this.query(statement);
     }
   }
 }
@@ -0,0 +1,71 @@
+// src/db/compound-statement.ts
+
+import { BatchStatement, IQueryBuilder } from '../interfaces';
+import { PositionalStatement, toPositionalStatement } from '../utils';
+
+/**
+ * Statements allowed in a batch. A compound SQL (inlined) statement cannot
+ * return a result set, so queries are rejected.
+ */
+const DML_STATEMENT = /^(?:INSERT|UPDATE|DELETE|MERGE)\b/i;
+
+/**
+ * Combines DML statements into one Db2 compound SQL (inlined) statement,
+ * `BEGIN ATOMIC ... END`. Db2 runs it in a single request, and if any
+ * statement fails, the changes of the others are rolled back.
+ *
+ * @example
+ * ```ts
+ * buildCompoundStatement([
+ *   { sql: 'INSERT INTO orders (id, total) VALUES (?, ?)', params: [1, 25] },
+ *   { sql: 'UPDATE stock SET qty = qty - :qty WHERE sku = :sku', params: { qty: 2, sku: 'A1' } },
+ * ]);
+ * // {
+ * //   sql: 'BEGIN ATOMIC\n  INSERT INTO orders ...;\n  UPDATE stock SET qty = qty - ? WHERE sku = ?;\nEND',
+ * //   params: [1, 25, 2, 'A1'],
+ * // }
+ * ```
+ *
+ * @param statements Raw statements, `sql` tag fragments or query builders.
+ * @throws Error if the batch is empty or holds a statement other than
+ * INSERT, UPDATE, DELETE or MERGE.
+ */
+export function buildCompoundStatement(
+  statements: BatchStatement[],
+): PositionalStatement {
+  if (!Array.isArray(statements) || statements.length === 0) {
+    throw new Error('A batch requires at least one statement.');
+  }
+
+  const compiled = statements.map((statement, index) => {
+    const { sql, params } = compileStatement(statement);
+    const body = sql.trim().replace(/;$/, '').trimEnd();
+    if (!DML_STATEMENT.test(body)) {
+      throw new Error(
+        `Batch statement ${index + 1} is not an INSERT, UPDATE, DELETE or MERGE statement.`,
+      );
+    }
+    return { sql: body, params };
+  });
+
+  return {
+    sql: [
+      'BEGIN ATOMIC',
+      ...compiled.map(({ sql }) => `  ${sql};`),
+      'END',
+    ].join('\n'),
+    params: compiled.flatMap(({ params }) => params),
+  };
+}
+
+function compileStatement(statement: BatchStatement): PositionalStatement {
+  if (typeof (statement as IQueryBuilder)?.build === 'function') {
+    const { query, params } = (statement as IQueryBuilder).build();
+    return { sql: query, params };
+  }
+  const { sql, params } = statement as Exclude<BatchStatement, IQueryBuilder>;
+  if (typeof sql !== 'string') {
+    throw new Error('A batch statement requires a SQL string.');
+  }
+  return toPositionalStatement(sql, params ?? []);
+}
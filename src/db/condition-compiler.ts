@@ -0,0 +1,228 @@
+// src/db/condition-compiler.ts
+
+import {
+  CompiledCondition,
+  ConditionOperators,
+  WhereCondition,
+} from '../interfaces';
+
+const OPERATORS: ReadonlyArray<keyof ConditionOperators> = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'between',
+  'in',
+  'like',
+  'isNull',
+];
+
+const COMPARISONS: Partial<Record<keyof ConditionOperators, string>> = {
+  eq: '=',
+  ne: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+/**
+ * Compiles structured WHERE conditions into parameterized SQL.
+ *
+ * @example
+ * ```ts
+ * const compiler = new ConditionCompiler();
+ * compiler.compile({ age: { gte: 18 }, status: ['active', 'pending'] });
+ * // { sql: '(age >= ? AND status IN (?, ?))', params: [18, 'active', 'pending'] }
+ * ```
+ */
+export class ConditionCompiler {
+  /**
+   * @param resolveColumn Maps a condition key to the column name emitted in SQL.
+   * @param convertValue Converts a compared value of a condition key to its
+   * database representation. `like` patterns are passed through unchanged.
+   */
+  constructor(
+    private readonly resolveColumn: (key: string) => string = (key) => key,
+    private readonly convertValue: (key: string, value: any) => any = (
+      _key,
+      value,
+    ) => value,
+  ) {}
+
+  /**
+   * Compiles a condition. Multiple parts are wrapped in parentheses so the
+   * result can safely be combined with other conditions using AND or OR.
+   * @param condition The structured condition.
+   * @returns The SQL fragment (empty when there is nothing to filter on) and its parameters.
+   */
+  compile(condition: WhereCondition): CompiledCondition {
+    const parts = this.compileParts(condition);
+    return this.join(parts, 'AND');
+  }
+
+  private compileParts(condition: WhereCondition): CompiledCondition[] {
+    const parts: CompiledCondition[] = [];
+
+    for (const [key, value] of Object.entries(condition ?? {})) {
+      if (value === undefined) {
+        continue;
+      }
+
+      if (key === '$and' || key === '$or') {
+        if (!Array.isArray(value)) {
+          throw new Error(`'${key}' expects an array of conditions.`);
+        }
+        const group = this.join(
+          value.map((nested) => this.compile(nested)),
+          key === '$and' ? 'AND' : 'OR',
+        );
+        if (group.sql) {
+          parts.push(group);
+        }
+        continue;
+      }
+
+      parts.push(...this.compileColumn(key, value));
+    }
+
+    return parts;
+  }
+
+  private compileColumn(key: string, value: any): CompiledCondition[] {
+    const column = this.resolveColumn(key);
+    const convert = (operand: any) => this.convertValue(key, operand);
+
+    if (value === null) {
+      return [{ sql: `${column} IS NULL`, params: [] }];
+    }
+    if (Array.isArray(value)) {
+      return [this.compileIn(column, value.map(convert))];
+    }
+    if (!this.isOperatorObject(value)) {
+      return [{ sql: `${column} = ?`, params: [convert(value)] }];
+    }
+
+    const parts: CompiledCondition[] = [];
+    for (const [operator, operand] of Object.entries(value)) {
+      if (!OPERATORS.includes(operator as keyof ConditionOperators)) {
+        throw new Error(
+          `Unknown condition operator '${operator}' for column '${column}'.`,
+        );
+      }
+      if (operand === undefined) {
+        continue;
+      }
+      parts.push(
+        this.compileOperator(
+          column,
+          operator as keyof ConditionOperators,
+          operand,
+          convert,
+        ),
+      );
+    }
+    return parts;
+  }
+
+  private compileOperator(
+    column: string,
+    operator: keyof ConditionOperators,
+    operand: any,
+    convert: (operand: any) => any,
+  ): CompiledCondition {
+    switch (operator) {
+      case 'eq':
+      case 'ne':
+        if (operand === null) {
+          return {
+            sql: `${column} ${operator === 'eq' ? 'IS NULL' : 'IS NOT NULL'}`,
+            params: [],
+          };
+        }
+        return {
+          sql: `${column} ${COMPARISONS[operator]} ?`,
+          params: [convert(operand)],
+        };
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        return {
+          sql: `${column} ${COMPARISONS[operator]} ?`,
+          params: [convert(operand)],
+        };
+      case 'between':
+        if (!Array.isArray(operand) || operand.length !== 2) {
+          throw new Error(
+            `'between' on column '${column}' expects a [from, to] pair.`,
+          );
+        }
+        return {
+          sql: `${column} BETWEEN ? AND ?`,
+          params: operand.map(convert),
+        };
+      case 'in':
+        if (!Array.isArray(operand)) {
+          throw new Error(`'in' on column '${column}' expects an array.`);
+        }
+        return this.compileIn(column, operand.map(convert));
+      case 'like':
+        return { sql: `${column} LIKE ?`, params: [operand] };
+      case 'isNull':
+        return {
+          sql: `${column} ${operand ? 'IS NULL' : 'IS NOT NULL'}`,
+          params: [],
+        };
+    }
+  }
+
+  private compileIn(column: string, values: any[]): CompiledCondition {
+    // IN () is not valid SQL; an empty list matches nothing.
+    if (values.length === 0) {
+      return { sql: '1 = 0', params: [] };
+    }
+    const placeholders = values.map(() => '?').join(', ');
+    return { sql: `${column} IN (${placeholders})`, params: [...values] };
+  }
+
+  private join(
+    parts: CompiledCondition[],
+    operator: 'AND' | 'OR',
+  ): CompiledCondition {
+    const nonEmpty = parts.filter((part) => part.sql);
+    if (nonEmpty.length === 0) {
+      return { sql: '', params: [] };
+    }
+    if (nonEmpty.length === 1) {
+      return nonEmpty[0];
+    }
+    return {
+      sql: `(${nonEmpty.map((part) => part.sql).join(` ${operator} `)})`,
+      params: nonEmpty.flatMap((part) => part.params),
+    };
+  }
+
+  /**
+   * A plain object is an operator object when one of its keys is an
+   * operator; otherwise it is a value, such as the content of a JSON column.
+   * Unknown keys next to an operator are rejected by compileColumn.
+   */
+  private isOperatorObject(value: any): boolean {
+    if (typeof value !== 'object' || value instanceof Date) {
+      return false;
+    }
+    if (Buffer.isBuffer(value)) {
+      return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return (
+      (prototype === Object.prototype || prototype === null) &&
+      Object.keys(value).some((key) =>
+        OPERATORS.includes(key as keyof ConditionOperators),
+      )
+    );
+  }
+}
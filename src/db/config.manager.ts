@@ -1,4 +1,5 @@
 import { IDb2ConfigManager, IConfigOptions } from '../interfaces';
+import { Db2Dialect } from '../enums';
 
 export class ConfigManager implements IDb2ConfigManager {
   private _config: () => IConfigOptions;
@@ -43,8 +44,8 @@ export class ConfigManager implements IDb2ConfigManager {
       autoCommit: config.autoCommit ?? true, // Default to auto-commit
       fetchSize: config.fetchSize ?? 100, // Default to 100 rows
       queryTimeout: config.queryTimeout ?? 15000, // Default to 15 seconds
-      prefetchSize: config.prefetchSize ?? 10, // Default to 10 rows
       characterEncoding: config.characterEncoding ?? 'UTF-8', // Default to UTF-8
+      dialect: config.dialect ?? Db2Dialect.LUW, // Default to Db2 for LUW
     };
   }
 
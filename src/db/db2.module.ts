@@ -304,6 +304,15 @@ export class Db2Module implements IDb2ConfigManager {
 
       // Execute the generated SQL
       await this.db2Client.query(createTableSQL);
+
+      // Add system-period versioning to temporal tables
+      const [temporal] = tableMetadata.temporal ?? [];
+      if (temporal) {
+        await this.db2Client.migrateTemporalTable(
+          tableMetadata.tableName,
+          temporal,
+        );
+      }
       this.logger.info(
         `Migration executed for table: ${tableMetadata.tableName}`,
       );
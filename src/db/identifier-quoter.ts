@@ -0,0 +1,303 @@
+// src/db/identifier-quoter.ts
+
+import { Db2InvalidIdentifierError } from '../errors';
+import { QueryBuilderOptions } from '../interfaces';
+
+const ORDINARY_IDENTIFIER = /^[A-Za-z_$#@][A-Za-z0-9_$#@]*$/;
+const DELIMITED_IDENTIFIER = /^"(?:[^"]|"")+"$/;
+const MAX_IDENTIFIER_LENGTH = 128;
+
+/**
+ * Reserved words that are commonly used as column names. They are emitted as
+ * delimited identifiers so Db2 does not parse them as keywords.
+ */
+const RESERVED_WORDS = new Set([
+  'ALL',
+  'AND',
+  'ANY',
+  'AS',
+  'BETWEEN',
+  'BY',
+  'CASE',
+  'CHECK',
+  'COLUMN',
+  'CONSTRAINT',
+  'CREATE',
+  'CROSS',
+  'CURRENT',
+  'CURRENT_DATE',
+  'CURRENT_TIME',
+  'CURRENT_TIMESTAMP',
+  'CURRENT_USER',
+  'DEFAULT',
+  'DELETE',
+  'DISTINCT',
+  'DROP',
+  'ELSE',
+  'END',
+  'EXCEPT',
+  'EXISTS',
+  'FETCH',
+  'FOR',
+  'FOREIGN',
+  'FROM',
+  'FULL',
+  'GRANT',
+  'GROUP',
+  'HAVING',
+  'IN',
+  'INNER',
+  'INSERT',
+  'INTERSECT',
+  'INTO',
+  'IS',
+  'JOIN',
+  'KEY',
+  'LEFT',
+  'LIKE',
+  'NOT',
+  'NULL',
+  'OF',
+  'OFFSET',
+  'ON',
+  'OR',
+  'ORDER',
+  'OUTER',
+  'PRIMARY',
+  'REFERENCES',
+  'RIGHT',
+  'ROW',
+  'ROWS',
+  'SELECT',
+  'SESSION_USER',
+  'SET',
+  'SOME',
+  'TABLE',
+  'THEN',
+  'TO',
+  'UNION',
+  'UNIQUE',
+  'UPDATE',
+  'USER',
+  'USING',
+  'VALUES',
+  'WHEN',
+  'WHERE',
+  'WITH',
+]);
+
+/**
+ * Validates and quotes the table, column and alias names emitted in SQL.
+ *
+ * Ordinary identifiers are emitted unchanged, so Db2 folds them to upper case
+ * as usual; reserved words are emitted in their folded, delimited form.
+ * Delimited identifiers (`"Mixed Case"`) are kept as written. Anything else
+ * is rejected with a `Db2InvalidIdentifierError`.
+ *
+ * Unqualified column references are first mapped through the `columnName`
+ * option, so entity property names are emitted as their column names.
+ * Qualified references, such as `p.title`, are taken as written.
+ *
+ * In strict mode, column references must name one of the known columns or an
+ * alias defined by the query. Names are compared after case folding. Only
+ * unqualified references and references qualified with the name or
+ * correlation name of the queried table are checked, so columns of joined
+ * tables can be used. Without known columns, strict mode rejects every
+ * column reference.
+ *
+ * @example
+ * ```ts
+ * const quoter = new IdentifierQuoter({ strict: true, columns: ['id', 'title'] });
+ * quoter.table('app.posts', 'p'); // app.posts
+ * quoter.column('p.title'); // p.title
+ * quoter.column('u.name'); // u.name, a column of a joined table
+ * quoter.column('order'); // throws Db2InvalidIdentifierError
+ * ```
+ */
+export class IdentifierQuoter {
+  private strict: boolean;
+  private readonly known = new Set<string>();
+  private readonly tables = new Set<string>();
+  private readonly columnName: (property: string) => string;
+
+  constructor(options: QueryBuilderOptions = {}) {
+    this.strict = options.strict ?? false;
+    this.columnName = options.columnName ?? ((property) => property);
+    for (const column of options.columns ?? []) {
+      this.known.add(this.fold(column));
+    }
+  }
+
+  /**
+   * Creates a copy that knows the same columns, aliases and tables, and maps
+   * properties to the same column names.
+   */
+  clone(): IdentifierQuoter {
+    const copy = new IdentifierQuoter({ columnName: this.columnName });
+    copy.strict = this.strict;
+    this.known.forEach((name) => copy.known.add(name));
+    this.tables.forEach((name) => copy.tables.add(name));
+    return copy;
+  }
+
+  /**
+   * Validates the name of the queried table. In strict mode, references
+   * qualified with the table name or its correlation name are checked.
+   * @param name The table name, optionally qualified with its schema.
+   * @param alias The correlation name of the table, validated by the caller.
+   * @returns The table name as it should be emitted in SQL.
+   */
+  table(name: string, alias?: string): string {
+    const quoted = this.qualified(name);
+    const parts = this.split(name).map((part) => this.fold(part));
+    this.tables.add(parts.join('.'));
+    this.tables.add(parts[parts.length - 1]);
+    if (alias) {
+      this.tables.add(this.fold(alias));
+    }
+    return quoted;
+  }
+
+  /**
+   * Validates a single, unqualified identifier.
+   * @param name The identifier.
+   * @returns The identifier as it should be emitted in SQL.
+   */
+  identifier(name: string): string {
+    if (typeof name !== 'string') {
+      throw new Db2InvalidIdentifierError(
+        `Invalid identifier '${String(name)}': expected a string.`,
+      );
+    }
+    if (DELIMITED_IDENTIFIER.test(name)) {
+      if (this.unescape(name).length > MAX_IDENTIFIER_LENGTH) {
+        throw new Db2InvalidIdentifierError(
+          `Identifier '${name}' exceeds ${MAX_IDENTIFIER_LENGTH} characters.`,
+        );
+      }
+      return name;
+    }
+    if (!ORDINARY_IDENTIFIER.test(name)) {
+      throw new Db2InvalidIdentifierError(
+        `Invalid identifier '${name}'. Use a delimited identifier ("name") for names that are not ordinary identifiers.`,
+      );
+    }
+    if (name.length > MAX_IDENTIFIER_LENGTH) {
+      throw new Db2InvalidIdentifierError(
+        `Identifier '${name}' exceeds ${MAX_IDENTIFIER_LENGTH} characters.`,
+      );
+    }
+    const folded = name.toUpperCase();
+    return RESERVED_WORDS.has(folded) ? `"${folded}"` : name;
+  }
+
+  /**
+   * Validates a possibly qualified name, such as `schema.table`.
+   * @param name The name, with its parts separated by dots.
+   * @returns The name as it should be emitted in SQL.
+   */
+  qualified(name: string): string {
+    return this.split(name)
+      .map((part) => this.identifier(part))
+      .join('.');
+  }
+
+  /**
+   * Validates a column reference, optionally qualified with a table name or
+   * correlation name. `*` and `alias.*` select all columns. An unqualified
+   * reference is mapped to its column name first.
+   * @param reference The column reference.
+   * @returns The column reference as it should be emitted in SQL.
+   */
+  column(reference: string): string {
+    if (reference === '*') {
+      return reference;
+    }
+    const parts = this.split(reference);
+    const column = parts[parts.length - 1];
+    if (column === '*' && parts.length > 1) {
+      return `${this.qualified(parts.slice(0, -1).join('.'))}.*`;
+    }
+    if (parts.length === 1) {
+      const name = this.columnName(reference);
+      const quoted = this.identifier(name);
+      this.assertKnown(name);
+      return quoted;
+    }
+    const quoted = this.qualified(reference);
+    const qualifier = parts
+      .slice(0, -1)
+      .map((part) => this.fold(part))
+      .join('.');
+    if (this.tables.has(qualifier)) {
+      this.assertKnown(column);
+    }
+    return quoted;
+  }
+
+  /**
+   * Validates an alias defined by the query. In strict mode the alias can
+   * afterwards be referenced like a column, e.g. in ORDER BY.
+   * @param name The alias.
+   * @returns The alias as it should be emitted in SQL.
+   */
+  alias(name: string): string {
+    const quoted = this.identifier(name);
+    this.known.add(this.fold(name));
+    return quoted;
+  }
+
+  /**
+   * Returns the name Db2 stores for an identifier: ordinary identifiers are
+   * folded to upper case, delimited identifiers are taken as written.
+   * @param name The identifier.
+   */
+  fold(name: string): string {
+    return DELIMITED_IDENTIFIER.test(name)
+      ? this.unescape(name)
+      : name.toUpperCase();
+  }
+
+  private assertKnown(column: string): void {
+    if (!this.strict) {
+      return;
+    }
+    if (!this.known.has(this.fold(column))) {
+      throw new Db2InvalidIdentifierError(
+        `Unknown column '${column}': strict mode only accepts columns defined in the entity metadata.`,
+      );
+    }
+  }
+
+  /**
+   * Splits a qualified name on the dots that are not part of a delimited
+   * identifier.
+   */
+  private split(name: string): string[] {
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new Db2InvalidIdentifierError(
+        `Invalid identifier '${String(name)}': expected a non-empty string.`,
+      );
+    }
+    const parts: string[] = [];
+    let current = '';
+    let delimited = false;
+    for (const char of name) {
+      if (char === '"') {
+        delimited = !delimited;
+      }
+      if (char === '.' && !delimited) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+    return parts;
+  }
+
+  private unescape(name: string): string {
+    return name.slice(1, -1).replace(/""/g, '"');
+  }
+}
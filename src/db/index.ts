@@ -1,8 +1,14 @@
 export * from './client';
 export * from './transaction-manager';
 export * from './query-builder';
+export * from './paginator';
+export * from './condition-compiler';
 export * from '../decorators/connection-state';
 export * from './pool.manager';
 export * from './connection-manager';
 export * from './db2.module';
 export * from './config.manager';
+export * from './identifier-quoter';
+export * from './sql-template';
+export * from './compound-statement';
+export * from './schema-builder';
@@ -0,0 +1,136 @@
+// src/db/paginator.ts
+
+import { Db2Dialect, Db2PaginationStrategy } from '../enums';
+import { PageWindow, PaginationOptions } from '../interfaces';
+
+/**
+ * Default pagination strategy per platform. Db2 for z/OS only accepts
+ * `OFFSET` from function level 500 onwards, so it falls back to ROW_NUMBER().
+ */
+const DEFAULT_STRATEGIES: Record<Db2Dialect, Db2PaginationStrategy> = {
+  [Db2Dialect.LUW]: Db2PaginationStrategy.OFFSET_FETCH,
+  [Db2Dialect.ZOS]: Db2PaginationStrategy.ROW_NUMBER,
+  [Db2Dialect.IBMI]: Db2PaginationStrategy.OFFSET_FETCH,
+};
+
+/**
+ * Renders row windows using Db2-native syntax instead of the MySQL-style
+ * `LIMIT`/`OFFSET`, which only works when DB2_COMPATIBILITY_VECTOR is set.
+ *
+ * @example
+ * ```ts
+ * const paginator = new Paginator({ dialect: Db2Dialect.LUW });
+ * paginator.paginate('SELECT * FROM users', ['id ASC'], { limit: 10, offset: 20 });
+ * // SELECT * FROM users ORDER BY id ASC OFFSET 20 ROWS FETCH FIRST 10 ROWS ONLY
+ * ```
+ */
+export class Paginator {
+  private readonly dialect: Db2Dialect;
+  private readonly strategy: Db2PaginationStrategy;
+
+  constructor(options: PaginationOptions = {}) {
+    this.dialect = options.dialect ?? Db2Dialect.LUW;
+    this.strategy = options.strategy ?? DEFAULT_STRATEGIES[this.dialect];
+  }
+
+  /**
+   * Appends the ORDER BY clause and the row window to a statement.
+   * @param sql The statement without its ORDER BY clause.
+   * @param orderBy The ORDER BY expressions (e.g. `created_at DESC`).
+   * @param window The rows to return.
+   * @returns The paginated statement.
+   */
+  paginate(sql: string, orderBy: string[], window: PageWindow = {}): string {
+    const limit = this.assertRowCount(window.limit, 'limit');
+    const offset = this.assertRowCount(window.offset, 'offset');
+
+    if (this.usesRowNumber(window)) {
+      return this.paginateWithRowNumber(
+        sql,
+        orderBy,
+        limit,
+        offset ?? 0,
+        window.columns,
+      );
+    }
+
+    let paginated = sql + this.orderByClause(orderBy);
+    if (offset !== undefined && offset > 0) {
+      paginated += ` OFFSET ${offset} ROWS`;
+    }
+    if (limit !== undefined) {
+      paginated += ` FETCH FIRST ${limit} ROWS ONLY`;
+    }
+    return paginated;
+  }
+
+  /**
+   * Tells whether a window is rendered by numbering the rows in a derived
+   * table, whose result is read-only. FETCH FIRST without an offset is
+   * understood by every platform, so only an offset needs the numbering.
+   * @param window The rows to return.
+   */
+  usesRowNumber(window: PageWindow): boolean {
+    return (
+      this.strategy === Db2PaginationStrategy.ROW_NUMBER &&
+      (this.assertRowCount(window.offset, 'offset') ?? 0) > 0
+    );
+  }
+
+  /**
+   * Renders an `OPTIMIZE FOR n ROWS` hint.
+   * @param rows The number of rows the application expects to fetch.
+   */
+  optimizeFor(rows: number): string {
+    return `OPTIMIZE FOR ${this.assertRowCount(rows, 'optimizeFor')} ROWS`;
+  }
+
+  /**
+   * Numbers the rows of the ordered statement and filters on that number.
+   * `ORDER BY ORDER OF` numbers the rows in the order of the statement, so its
+   * ORDER BY may use any column of its tables. The outer select lists the
+   * result columns when they are known, so the number is not returned; a
+   * `SELECT *` statement returns it as the DB2_ROWNUM column.
+   */
+  private paginateWithRowNumber(
+    sql: string,
+    orderBy: string[],
+    limit: number | undefined,
+    offset: number,
+    columns: string[] = [],
+  ): string {
+    const over = orderBy.length > 0 ? 'ORDER BY ORDER OF DB2_INNER' : '';
+    const numbered =
+      `SELECT DB2_INNER.*, ROW_NUMBER() OVER (${over}) AS DB2_ROWNUM ` +
+      `FROM (${sql}${this.orderByClause(orderBy)}) AS DB2_INNER`;
+    const projection =
+      columns.length > 0
+        ? columns.map((column) => `DB2_PAGED.${column}`).join(', ')
+        : '*';
+
+    let filter = `DB2_ROWNUM > ${offset}`;
+    if (limit !== undefined) {
+      filter += ` AND DB2_ROWNUM <= ${offset + limit}`;
+    }
+    return `SELECT ${projection} FROM (${numbered}) AS DB2_PAGED WHERE ${filter} ORDER BY DB2_ROWNUM`;
+  }
+
+  private orderByClause(orderBy: string[]): string {
+    return orderBy.length > 0 ? ` ORDER BY ${orderBy.join(', ')}` : '';
+  }
+
+  private assertRowCount(
+    value: number | undefined,
+    name: string,
+  ): number | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(
+        `Invalid ${name} '${value}': expected a non-negative integer.`,
+      );
+    }
+    return value;
+  }
+}
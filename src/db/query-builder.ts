@@ -1,222 +1,952 @@
 // src/modules/db2/query-builder.ts
 
 import { Client } from '../db';
-import { IQueryBuilder } from '../interfaces';
+import { Db2IsolationLevel } from '../enums';
+import { formatDb2Timestamp, formatSql, toPositionalStatement } from '../utils';
+import {
+  AliasedColumns,
+  BatchStatement,
+  ColumnReference,
+  ColumnType,
+  CompiledCondition,
+  ConditionValue,
+  EntityColumn,
+  IQueryBuilder,
+  JsonTableColumn,
+  Projection,
+  QueryBuilderOptions,
+  ScopeFunction,
+  SqlFormatOptions,
+  SelectedColumns,
+  StreamOptions,
+  WhereCondition,
+  WindowAggregate,
+  WindowFrameBound,
+  WindowSpecification,
+} from '../interfaces';
+import { Paginator } from './paginator';
+import { ConditionCompiler } from './condition-compiler';
+import { IdentifierQuoter } from './identifier-quoter';
 
-export class QueryBuilder<T> implements IQueryBuilder {
+type StatementType = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'MERGE';
+
+/**
+ * Statement-level isolation clauses. Db2 calls ANSI REPEATABLE READ
+ * "read stability" (RS) and ANSI SERIALIZABLE "repeatable read" (RR).
+ */
+const ISOLATION_CLAUSES: Record<Db2IsolationLevel, string> = {
+  [Db2IsolationLevel.READ_UNCOMMITTED]: 'UR',
+  [Db2IsolationLevel.UNCOMMITTED_READ]: 'UR',
+  [Db2IsolationLevel.READ_COMMITTED]: 'CS',
+  [Db2IsolationLevel.CURSOR_STABILITY]: 'CS',
+  [Db2IsolationLevel.REPEATABLE_READ]: 'RS',
+  [Db2IsolationLevel.SERIALIZABLE]: 'RR',
+};
+
+const WINDOW_AGGREGATES: ReadonlyArray<WindowAggregate> = [
+  'SUM',
+  'AVG',
+  'MIN',
+  'MAX',
+  'COUNT',
+];
+
+/**
+ * SQL/JSON paths accepted by the JSON helpers: an optional mode, then member,
+ * wildcard and array accessors. Db2 requires the path to be a constant, so it
+ * is emitted as a literal and may not contain quotes other than around a key.
+ */
+const JSON_PATH =
+  /^(?:(?:strict|lax)\s+)?\$(?:\.(?:[A-Za-z_][A-Za-z0-9_]*|\*|"[^"']+")|\[(?:\d+|\*)\])*$/;
+
+const SQL_DATA_TYPE =
+  /^[A-Z]+(?: [A-Z]+)*(?:\s*\(\s*\d+\s*[KMG]?(?:\s*,\s*\d+)?\s*\))?$/i;
+
+const DEFAULT_JSON_RETURNING = 'VARCHAR(2000)';
+
+/**
+ * Names of select list entries: the alias after a trailing `AS`, or the last
+ * part of a column reference.
+ */
+const RESULT_COLUMN_ALIAS = /\sAS\s+("(?:[^"]|"")+"|[A-Za-z_][\w$#@]*)$/i;
+const RESULT_COLUMN_REFERENCE =
+  /^(?:(?:"(?:[^"]|"")+"|[A-Za-z_][\w$#@]*)\.)*("(?:[^"]|"")+"|[A-Za-z_][\w$#@]*)$/;
+
+type SetOperator = 'UNION' | 'UNION ALL' | 'INTERSECT' | 'EXCEPT';
+
+interface SetOperation {
+  operator: SetOperator;
+  query: string;
+  params: any[];
+}
+
+interface CommonTableExpression {
+  name: string;
+  columns: string[];
+  sql: string;
+}
+
+export class QueryBuilder<T = any, R = T> implements IQueryBuilder<T, R> {
+  private statementType: StatementType = 'SELECT';
   private selectColumns: string[] = [];
   private distinctFlag: boolean = false;
   private schemaName?: string;
   private tableName?: string;
   private alias?: string;
+  private systemTimeClause?: string;
+  private systemTimeParams: any[] = [];
   private whereConditions: string[] = [];
   private whereParams: any[] = [];
   private orderByConditions: string[] = [];
   private limitNumber?: number;
   private offsetNumber?: number;
+  private optimizeForRows?: number;
   private joinConditions: string[] = [];
+  private joinParams: any[] = [];
+  private commonTableExpressions: CommonTableExpression[] = [];
+  private commonTableParams: any[] = [];
+  private setOperations: SetOperation[] = [];
+  private cursorMode?: 'FOR UPDATE' | 'FOR READ ONLY';
+  private forUpdateColumns: string[] = [];
+  private isolationLevel?: Db2IsolationLevel;
+  private skipLockedFlag: boolean = false;
   private groupByColumns: string[] = [];
   private havingConditions: string[] = [];
   private havingParams: any[] = [];
-  private countFlag: boolean = false;
-  private countColumn?: string;
-  private countAlias?: string;
+  private aggregateFlag: boolean = false;
+  private insertColumns: string[] = [];
+  private insertRows: any[][] = [];
+  private updateAssignments: Record<string, any> = {};
+  private mergeKeys: string[] = [];
+  private mergeColumnTypes: string[] = [];
+  private mergeUpdateColumns: string[] = [];
+  private mergeUpdateValues: any[] = [];
+  private readonly paginator: Paginator;
+  private readonly options: QueryBuilderOptions;
+  private identifiers: IdentifierQuoter;
+  private readonly conditionCompiler = new ConditionCompiler(
+    (key) => this.identifiers.column(key),
+    (key, value) =>
+      this.options.columnValue ? this.options.columnValue(key, value) : value,
+  );
+  private mutating = false;
+
+  /**
+   * Marks a method that changes the builder. On an immutable builder the
+   * method runs on a copy, which is returned; calls made while the copy is
+   * being changed (e.g. `update` calling `where`, or a scope) apply to it
+   * directly.
+   */
+  private static mutation(
+    _target: object,
+    _key: string,
+    descriptor: PropertyDescriptor,
+  ): void {
+    const method = descriptor.value;
+    descriptor.value = function (this: QueryBuilder<any, any>, ...args: any[]) {
+      if (!this.options.immutable || this.mutating) {
+        return method.apply(this, args);
+      }
+      const builder = this.copy(this.options);
+      builder.mutating = true;
+      try {
+        return method.apply(builder, args);
+      } finally {
+        builder.mutating = false;
+      }
+    };
+  }
 
+  /**
+   * @param table The table to query, optionally qualified with its schema.
+   * @param client The client executing the query.
+   * @param options Identifier options, immutability and named scopes. Strict
+   * mode defaults to the client's `strictIdentifiers` setting when `columns`
+   * is given; set explicitly without `columns`, every column is rejected.
+   */
   constructor(
     private table: string,
     private client: Client,
+    options: QueryBuilderOptions = {},
   ) {
-    this.tableName = table;
+    const { strict, ...identifierOptions } =
+      this.client?.getIdentifierOptions() ?? {};
+    this.options = {
+      ...identifierOptions,
+      strict: options.columns ? strict : undefined,
+      ...options,
+    };
+    this.identifiers = new IdentifierQuoter(this.options);
+    this.tableName = this.identifiers.table(table);
+    this.paginator = new Paginator(this.client?.getPaginationOptions());
   }
 
-  public reset(): IQueryBuilder {
+  @QueryBuilder.mutation
+  public reset(): IQueryBuilder<T, T> {
+    this.statementType = 'SELECT';
     this.selectColumns = [];
     this.distinctFlag = false;
     this.schemaName = undefined;
-    this.tableName = undefined;
     this.alias = undefined;
+    this.systemTimeClause = undefined;
+    this.systemTimeParams = [];
     this.whereConditions = [];
     this.whereParams = [];
     this.orderByConditions = [];
     this.limitNumber = undefined;
     this.offsetNumber = undefined;
+    this.optimizeForRows = undefined;
     this.joinConditions = [];
+    this.joinParams = [];
+    this.commonTableExpressions = [];
+    this.commonTableParams = [];
+    this.setOperations = [];
+    this.cursorMode = undefined;
+    this.forUpdateColumns = [];
+    this.isolationLevel = undefined;
+    this.skipLockedFlag = false;
     this.groupByColumns = [];
     this.havingConditions = [];
     this.havingParams = [];
-    this.countFlag = false;
-    this.countColumn = undefined;
-    this.countAlias = undefined;
-    return this;
+    this.aggregateFlag = false;
+    this.insertColumns = [];
+    this.insertRows = [];
+    this.updateAssignments = {};
+    this.mergeKeys = [];
+    this.mergeColumnTypes = [];
+    this.mergeUpdateColumns = [];
+    this.mergeUpdateValues = [];
+    this.identifiers = new IdentifierQuoter(this.options);
+    this.tableName = this.identifiers.table(this.table);
+    return this.project<T>();
   }
 
-  select(columns: string | string[] | Record<string, string>): IQueryBuilder {
+  clone(): IQueryBuilder<T, R> {
+    return this.copy(this.options);
+  }
+
+  immutable(): IQueryBuilder<T, R> {
+    return this.copy({ ...this.options, immutable: true });
+  }
+
+  @QueryBuilder.mutation
+  scope(name: string, ...args: any[]): IQueryBuilder<T, R> {
+    const scope = this.options.scopes?.[name];
+    if (!scope) {
+      throw new Error(`Unknown scope '${name}'.`);
+    }
+    return this.apply(scope, ...args);
+  }
+
+  @QueryBuilder.mutation
+  apply(scope: ScopeFunction<T>, ...args: any[]): IQueryBuilder<T, R> {
+    return (scope(this, ...args) ?? this) as IQueryBuilder<T, R>;
+  }
+
+  select<C extends ColumnReference<T>>(
+    columns: C | C[],
+  ): IQueryBuilder<T, Projection<T, R, SelectedColumns<T, C>>>;
+  select<A extends { [K in ColumnReference<T>]?: S }, S extends string>(
+    columns: A,
+  ): IQueryBuilder<T, Projection<T, R, AliasedColumns<T, A>>>;
+  @QueryBuilder.mutation
+  select(
+    columns: string | string[] | Record<string, string>,
+  ): IQueryBuilder<T, any> {
     if (typeof columns === 'string') {
-      this.selectColumns.push(columns);
+      this.selectColumns.push(this.identifiers.column(columns));
     } else if (Array.isArray(columns)) {
-      this.selectColumns.push(...columns);
+      this.selectColumns.push(
+        ...columns.map((column) => this.identifiers.column(column)),
+      );
     } else {
       // Record<string, string> as alias
       for (const [key, value] of Object.entries(columns)) {
-        this.selectColumns.push(`${key} AS ${value}`);
+        this.selectColumns.push(
+          `${this.identifiers.column(key)} AS ${this.identifiers.alias(value)}`,
+        );
       }
     }
-    return this;
+    return this.project();
   }
 
-  distinct(): IQueryBuilder {
+  @QueryBuilder.mutation
+  distinct(): IQueryBuilder<T, R> {
     this.distinctFlag = true;
     return this;
   }
 
-  useSchema(schemaName: string): IQueryBuilder {
-    this.schemaName = schemaName;
+  @QueryBuilder.mutation
+  useSchema(schemaName: string): IQueryBuilder<T, R> {
+    this.schemaName = this.identifiers.identifier(schemaName);
     return this;
   }
 
-  from(table: string, alias?: string): IQueryBuilder {
-    this.tableName = table;
-    this.alias = alias;
+  @QueryBuilder.mutation
+  from(table: string, alias?: string): IQueryBuilder<T, R> {
+    this.alias = alias ? this.identifiers.identifier(alias) : undefined;
+    this.tableName = this.identifiers.table(table, alias);
     return this;
   }
 
-  where(condition: string, params: any[] = []): IQueryBuilder {
-    this.whereConditions.push(condition);
-    this.whereParams.push(...params);
+  @QueryBuilder.mutation
+  asOf(timestamp: Date | string): IQueryBuilder<T, R> {
+    return this.setSystemTime('AS OF ?', [timestamp]);
+  }
+
+  @QueryBuilder.mutation
+  systemTimeBetween(
+    start: Date | string,
+    end: Date | string,
+  ): IQueryBuilder<T, R> {
+    return this.setSystemTime('BETWEEN ? AND ?', [start, end]);
+  }
+
+  @QueryBuilder.mutation
+  where(
+    condition: string | WhereCondition<T>,
+    params: any[] | Record<string, any> = [],
+  ): IQueryBuilder<T, R> {
+    const compiled = this.compileCondition(condition, params);
+    if (!compiled.sql) {
+      return this;
+    }
+    // Repeated where() calls narrow the result, so conditions joined with
+    // or() are grouped before the new condition is added with AND.
+    if (this.whereConditions.some((sql) => sql.startsWith('OR '))) {
+      this.whereConditions = [`(${this.whereConditions.join(' ')})`];
+    }
+    this.whereConditions.push(
+      this.whereConditions.length > 0 ? `AND ${compiled.sql}` : compiled.sql,
+    );
+    this.whereParams.push(...compiled.params);
     return this;
   }
 
-  and(condition: string, params: any[] = []): IQueryBuilder {
+  @QueryBuilder.mutation
+  and(
+    condition: string | WhereCondition<T>,
+    params: any[] | Record<string, any> = [],
+  ): IQueryBuilder<T, R> {
     if (this.whereConditions.length === 0) {
       throw new Error('Cannot use AND without a preceding WHERE clause.');
     }
-    this.whereConditions.push(`AND ${condition}`);
-    this.whereParams.push(...params);
+    const compiled = this.compileCondition(condition, params);
+    if (compiled.sql) {
+      this.whereConditions.push(`AND ${compiled.sql}`);
+      this.whereParams.push(...compiled.params);
+    }
     return this;
   }
 
-  or(condition: string, params: any[] = []): IQueryBuilder {
+  @QueryBuilder.mutation
+  or(
+    condition: string | WhereCondition<T>,
+    params: any[] | Record<string, any> = [],
+  ): IQueryBuilder<T, R> {
     if (this.whereConditions.length === 0) {
       throw new Error('Cannot use OR without a preceding WHERE clause.');
     }
-    this.whereConditions.push(`OR ${condition}`);
-    this.whereParams.push(...params);
+    const compiled = this.compileCondition(condition, params);
+    if (compiled.sql) {
+      this.whereConditions.push(`OR ${compiled.sql}`);
+      this.whereParams.push(...compiled.params);
+    }
+    return this;
+  }
+
+  @QueryBuilder.mutation
+  whereJson(
+    column: ColumnReference<T>,
+    path: string,
+    condition: ConditionValue,
+    returning: string = DEFAULT_JSON_RETURNING,
+  ): IQueryBuilder<T, R> {
+    const expression = `JSON_VALUE(${this.identifiers.column(column)}, ${this.jsonPath(path)} RETURNING ${this.sqlDataType(returning)})`;
+    const compiled = new ConditionCompiler(() => expression).compile({
+      [path]: condition,
+    });
+    return compiled.sql ? this.where(compiled.sql, compiled.params) : this;
+  }
+
+  @QueryBuilder.mutation
+  whereJsonExists(
+    column: ColumnReference<T>,
+    path: string,
+  ): IQueryBuilder<T, R> {
+    return this.where(
+      `JSON_EXISTS(${this.identifiers.column(column)}, ${this.jsonPath(path)})`,
+    );
+  }
+
+  @QueryBuilder.mutation
+  orderBy(
+    column: ColumnReference<T> | (keyof R & string),
+    direction: 'ASC' | 'DESC' = 'ASC',
+  ): IQueryBuilder<T, R> {
+    if (direction !== 'ASC' && direction !== 'DESC') {
+      throw new Error(
+        `Invalid sort direction '${direction}': expected ASC or DESC.`,
+      );
+    }
+    this.orderByConditions.push(
+      `${this.identifiers.column(column)} ${direction}`,
+    );
     return this;
   }
 
-  orderBy(column: string, direction: 'ASC' | 'DESC' = 'ASC'): IQueryBuilder {
-    this.orderByConditions.push(`${column} ${direction}`);
+  @QueryBuilder.mutation
+  orderByRaw(expression: string): IQueryBuilder<T, R> {
+    this.orderByConditions.push(expression);
     return this;
   }
 
-  limit(limit: number): IQueryBuilder {
+  @QueryBuilder.mutation
+  limit(limit: number): IQueryBuilder<T, R> {
     this.limitNumber = limit;
     return this;
   }
 
-  offset(offset: number): IQueryBuilder {
+  @QueryBuilder.mutation
+  offset(offset: number): IQueryBuilder<T, R> {
     this.offsetNumber = offset;
     return this;
   }
 
+  @QueryBuilder.mutation
+  optimizeFor(rows: number): IQueryBuilder<T, R> {
+    this.optimizeForRows = rows;
+    return this;
+  }
+
+  @QueryBuilder.mutation
   join(
     table: string,
     condition: string,
     type: 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'NATURAL' | 'CROSS' = 'INNER',
-  ): IQueryBuilder {
-    this.joinConditions.push(`${type} JOIN ${table} ON ${condition}`);
+  ): IQueryBuilder<T, R> {
+    this.joinConditions.push(
+      `${type} JOIN ${this.tableReference(table)} ON ${condition}`,
+    );
     return this;
   }
 
-  groupBy(columns: string | string[]): IQueryBuilder {
-    if (typeof columns === 'string') {
-      this.groupByColumns.push(columns);
-    } else {
-      this.groupByColumns.push(...columns);
-    }
+  @QueryBuilder.mutation
+  groupBy(
+    columns: ColumnReference<T> | ColumnReference<T>[],
+  ): IQueryBuilder<T, R> {
+    const list: string[] = typeof columns === 'string' ? [columns] : columns;
+    this.groupByColumns.push(
+      ...list.map((column) => this.identifiers.column(column)),
+    );
     return this;
   }
 
-  having(condition: string, params: any[] = []): IQueryBuilder {
-    this.havingConditions.push(condition);
-    this.havingParams.push(...params);
+  @QueryBuilder.mutation
+  having(
+    condition: string,
+    params: any[] | Record<string, any> = [],
+  ): IQueryBuilder<T, R> {
+    const compiled = toPositionalStatement(condition, params);
+    this.havingConditions.push(compiled.sql);
+    this.havingParams.push(...compiled.params);
     return this;
   }
 
-  count(column: string = '*', alias: string = 'count'): IQueryBuilder {
-    this.countFlag = true;
-    this.countColumn = column;
-    this.countAlias = alias;
-    return this;
+  @QueryBuilder.mutation
+  count<A extends string = 'count'>(
+    column: ColumnReference<T> | '*' = '*',
+    alias: A = 'count' as A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>> {
+    return this.selectAggregate(
+      `COUNT(${this.identifiers.column(column)})`,
+      alias,
+    );
+  }
+
+  @QueryBuilder.mutation
+  countDistinct<A extends string>(
+    column: ColumnReference<T>,
+    alias: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>> {
+    return this.selectAggregate(
+      `COUNT(DISTINCT ${this.identifiers.column(column)})`,
+      alias,
+    );
+  }
+
+  @QueryBuilder.mutation
+  sum<A extends string>(
+    column: ColumnReference<T>,
+    alias: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>> {
+    return this.selectAggregate(
+      `SUM(${this.identifiers.column(column)})`,
+      alias,
+    );
+  }
+
+  @QueryBuilder.mutation
+  avg<A extends string>(
+    column: ColumnReference<T>,
+    alias: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>> {
+    return this.selectAggregate(
+      `AVG(${this.identifiers.column(column)})`,
+      alias,
+    );
   }
 
-  insertInto(table: string, columns: string[], values: any[][]): IQueryBuilder {
-    // Implement if needed
+  @QueryBuilder.mutation
+  min<C extends ColumnReference<T>, A extends string>(
+    column: C,
+    alias: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, ColumnType<T, C>>>> {
+    return this.selectAggregate(
+      `MIN(${this.identifiers.column(column)})`,
+      alias,
+    );
+  }
+
+  @QueryBuilder.mutation
+  max<C extends ColumnReference<T>, A extends string>(
+    column: C,
+    alias: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, ColumnType<T, C>>>> {
+    return this.selectAggregate(
+      `MAX(${this.identifiers.column(column)})`,
+      alias,
+    );
+  }
+
+  @QueryBuilder.mutation
+  insertInto(
+    table: string,
+    columns: EntityColumn<T>[],
+    values: any[][],
+  ): IQueryBuilder<T, R> {
+    if (columns.length === 0) {
+      throw new Error('INSERT requires at least one column.');
+    }
+    if (values.length === 0) {
+      throw new Error('INSERT requires at least one row of values.');
+    }
+    this.assertRowWidths(columns, values, 'INSERT');
+
+    this.statementType = 'INSERT';
+    this.tableName = this.identifiers.qualified(table);
+    this.insertColumns = columns.map((column) =>
+      this.identifiers.column(column),
+    );
+    this.insertRows = values.map((row) => [...row]);
     return this;
   }
 
+  @QueryBuilder.mutation
   update(
     table: string,
-    updates: Record<string, any>,
-    where: string,
-    whereParams: any[],
-  ): IQueryBuilder {
-    // Implement if needed
+    updates: { [K in EntityColumn<T>]?: T[K] },
+    where?: string,
+    whereParams: any[] | Record<string, any> = [],
+  ): IQueryBuilder<T, R> {
+    if (Object.keys(updates).length === 0) {
+      throw new Error('UPDATE requires at least one column to set.');
+    }
+
+    this.statementType = 'UPDATE';
+    this.tableName = this.identifiers.qualified(table);
+    this.updateAssignments = {};
+    for (const [column, value] of Object.entries(updates)) {
+      this.updateAssignments[this.identifiers.column(column)] = value;
+    }
+    if (where) {
+      this.where(where, whereParams);
+    }
     return this;
   }
 
-  deleteFrom(table: string): IQueryBuilder {
-    // Implement if needed
+  @QueryBuilder.mutation
+  deleteFrom(table: string): IQueryBuilder<T, R> {
+    this.statementType = 'DELETE';
+    this.tableName = this.identifiers.qualified(table);
     return this;
   }
 
+  @QueryBuilder.mutation
   upsert(
     table: string,
-    insertColumns: string[],
+    insertColumns: EntityColumn<T>[],
     insertValues: any[][],
     conflictTarget: string,
-    updateColumns: string[],
-    updateValues: any[],
-  ): IQueryBuilder {
-    // Implement if needed
+    updateColumns: EntityColumn<T>[],
+    updateValues: any[] = [],
+  ): IQueryBuilder<T, R> {
+    const keys = conflictTarget
+      .split(',')
+      .map((key) => key.trim())
+      .filter((key) => key.length > 0);
+
+    if (insertColumns.length === 0 || insertValues.length === 0) {
+      throw new Error('UPSERT requires at least one column and one row.');
+    }
+    if (keys.length === 0) {
+      throw new Error('UPSERT requires a conflict target.');
+    }
+    const missingKey = keys.find(
+      (key) => !(insertColumns as string[]).includes(key),
+    );
+    if (missingKey) {
+      throw new Error(
+        `Conflict target column '${missingKey}' must be one of the inserted columns.`,
+      );
+    }
+    if (
+      updateValues.length > 0 &&
+      updateValues.length !== updateColumns.length
+    ) {
+      throw new Error(
+        'UPSERT update values must match the number of update columns.',
+      );
+    }
+    this.assertRowWidths(insertColumns, insertValues, 'UPSERT');
+    const columnTypes = insertColumns.map((column) => {
+      const type = this.options.columnTypes?.[column];
+      if (!type) {
+        throw new Error(
+          `UPSERT requires the data type of column '${column}' in the columnTypes option.`,
+        );
+      }
+      return this.sqlDataType(type);
+    });
+
+    this.statementType = 'MERGE';
+    this.tableName = this.identifiers.qualified(table);
+    this.insertColumns = insertColumns.map((column) =>
+      this.identifiers.column(column),
+    );
+    this.insertRows = insertValues.map((row) => [...row]);
+    this.mergeKeys = keys.map((key) => this.identifiers.column(key));
+    this.mergeColumnTypes = columnTypes;
+    this.mergeUpdateColumns = updateColumns.map((column) =>
+      this.identifiers.column(column),
+    );
+    this.mergeUpdateValues = [...updateValues];
+    return this;
+  }
+
+  @QueryBuilder.mutation
+  subquery(
+    subquery: IQueryBuilder<any, any>,
+    alias: string,
+    condition?: string,
+    type: 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' = 'INNER',
+  ): IQueryBuilder<T, R> {
+    if (!alias) {
+      throw new Error('A subquery requires an alias.');
+    }
+    alias = this.identifiers.identifier(alias);
+    const nested = this.nestedStatement(subquery);
+    this.joinConditions.push(
+      condition
+        ? `${type} JOIN (${nested.query}) AS ${alias} ON ${condition}`
+        : `CROSS JOIN (${nested.query}) AS ${alias}`,
+    );
+    this.joinParams.push(...nested.params);
+    return this;
+  }
+
+  @QueryBuilder.mutation
+  with(
+    name: string,
+    subquery: IQueryBuilder<any, any>,
+    columns: string[] = [],
+  ): IQueryBuilder<T, R> {
+    const nested = this.nestedStatement(subquery);
+    this.addCommonTableExpression(name, columns, nested.query);
+    this.commonTableParams.push(...nested.params);
     return this;
   }
 
-  subquery(subquery: IQueryBuilder, alias: string): IQueryBuilder {
-    // Implement if needed
+  @QueryBuilder.mutation
+  withRecursive(
+    name: string,
+    columns: string[],
+    anchor: IQueryBuilder<any, any>,
+    recursive: IQueryBuilder<any, any>,
+  ): IQueryBuilder<T, R> {
+    if (columns.length === 0) {
+      throw new Error(
+        `Recursive common table expression '${name}' requires a column list.`,
+      );
+    }
+    const initial = this.nestedStatement(anchor);
+    const iteration = this.nestedStatement(recursive);
+    this.addCommonTableExpression(
+      name,
+      columns,
+      `${initial.query} UNION ALL ${iteration.query}`,
+    );
+    this.commonTableParams.push(...initial.params, ...iteration.params);
     return this;
   }
 
-  useFunction(func: string, alias?: string): IQueryBuilder {
+  @QueryBuilder.mutation
+  useFunction<A extends string = string>(
+    func: string,
+    alias?: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, any>>> {
     if (alias) {
-      this.selectColumns.push(`${func} AS ${alias}`);
+      this.selectColumns.push(`${func} AS ${this.identifiers.alias(alias)}`);
     } else {
       this.selectColumns.push(func);
     }
+    return this.project();
+  }
+
+  @QueryBuilder.mutation
+  jsonValue<A extends string>(
+    column: ColumnReference<T>,
+    path: string,
+    alias: A,
+    returning: string = DEFAULT_JSON_RETURNING,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, any>>> {
+    this.selectColumns.push(
+      `JSON_VALUE(${this.identifiers.column(column)}, ${this.jsonPath(path)} RETURNING ${this.sqlDataType(returning)}) AS ${this.identifiers.alias(alias)}`,
+    );
+    return this.project();
+  }
+
+  @QueryBuilder.mutation
+  jsonQuery<A extends string>(
+    column: ColumnReference<T>,
+    path: string,
+    alias: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, string>>> {
+    this.selectColumns.push(
+      `JSON_QUERY(${this.identifiers.column(column)}, ${this.jsonPath(path)}) AS ${this.identifiers.alias(alias)}`,
+    );
+    return this.project();
+  }
+
+  @QueryBuilder.mutation
+  jsonTable(
+    column: ColumnReference<T>,
+    path: string,
+    columns: Record<string, JsonTableColumn>,
+    alias: string,
+  ): IQueryBuilder<T, R> {
+    const definitions = Object.entries(columns ?? {}).map(
+      ([name, definition]) =>
+        `${this.identifiers.alias(name)} ${this.sqlDataType(definition?.type)} PATH ${this.jsonPath(definition?.path)}`,
+    );
+    if (definitions.length === 0) {
+      throw new Error('JSON_TABLE requires at least one column.');
+    }
+    this.joinConditions.push(
+      `CROSS JOIN JSON_TABLE(${this.identifiers.column(column)}, ${this.jsonPath(path)} COLUMNS (${definitions.join(', ')}) ERROR ON ERROR) AS ${this.identifiers.identifier(alias)}`,
+    );
+    return this;
+  }
+
+  @QueryBuilder.mutation
+  rowNumber<A extends string>(
+    alias: A,
+    over: WindowSpecification<T> = {},
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>> {
+    return this.selectOlap('ROW_NUMBER()', alias, over, { frame: false });
+  }
+
+  @QueryBuilder.mutation
+  rank<A extends string>(
+    alias: A,
+    over: WindowSpecification<T>,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>> {
+    return this.selectOlap('RANK()', alias, over, {
+      frame: false,
+      ordered: true,
+    });
+  }
+
+  @QueryBuilder.mutation
+  denseRank<A extends string>(
+    alias: A,
+    over: WindowSpecification<T>,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>> {
+    return this.selectOlap('DENSE_RANK()', alias, over, {
+      frame: false,
+      ordered: true,
+    });
+  }
+
+  @QueryBuilder.mutation
+  lag<C extends ColumnReference<T>, A extends string>(
+    column: C,
+    alias: A,
+    over: WindowSpecification<T>,
+    offset?: number,
+    defaultValue?: string | number,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, ColumnType<T, C>>>> {
+    return this.selectOlap(
+      this.offsetFunction('LAG', column, offset, defaultValue),
+      alias,
+      over,
+      { frame: false, ordered: true },
+    );
+  }
+
+  @QueryBuilder.mutation
+  lead<C extends ColumnReference<T>, A extends string>(
+    column: C,
+    alias: A,
+    over: WindowSpecification<T>,
+    offset?: number,
+    defaultValue?: string | number,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, ColumnType<T, C>>>> {
+    return this.selectOlap(
+      this.offsetFunction('LEAD', column, offset, defaultValue),
+      alias,
+      over,
+      { frame: false, ordered: true },
+    );
+  }
+
+  @QueryBuilder.mutation
+  aggregateOver<
+    F extends WindowAggregate,
+    C extends ColumnReference<T> | '*',
+    A extends string,
+  >(
+    func: F,
+    column: C,
+    alias: A,
+    over: WindowSpecification<T> = {},
+  ): IQueryBuilder<
+    T,
+    Projection<
+      T,
+      R,
+      Record<A, F extends 'MIN' | 'MAX' ? ColumnType<T, C> : number>
+    >
+  > {
+    if (!WINDOW_AGGREGATES.includes(func)) {
+      throw new Error(`Unsupported window aggregate '${func}'.`);
+    }
+    if (column === '*' && func !== 'COUNT') {
+      throw new Error(`${func} cannot be applied to '*'.`);
+    }
+    return this.selectOlap(
+      `${func}(${this.identifiers.column(column)})`,
+      alias,
+      over,
+      { frame: true },
+    );
+  }
+
+  @QueryBuilder.mutation
+  union(other: IQueryBuilder<any, any>): IQueryBuilder<T, R> {
+    return this.addSetOperation('UNION', other);
+  }
+
+  @QueryBuilder.mutation
+  unionAll(other: IQueryBuilder<any, any>): IQueryBuilder<T, R> {
+    return this.addSetOperation('UNION ALL', other);
+  }
+
+  @QueryBuilder.mutation
+  intersect(other: IQueryBuilder<any, any>): IQueryBuilder<T, R> {
+    return this.addSetOperation('INTERSECT', other);
+  }
+
+  @QueryBuilder.mutation
+  except(other: IQueryBuilder<any, any>): IQueryBuilder<T, R> {
+    return this.addSetOperation('EXCEPT', other);
+  }
+
+  @QueryBuilder.mutation
+  forUpdate(columns: ColumnReference<T>[] = []): IQueryBuilder<T, R> {
+    if (this.cursorMode === 'FOR READ ONLY') {
+      throw new Error('FOR UPDATE cannot be combined with FOR READ ONLY.');
+    }
+    this.cursorMode = 'FOR UPDATE';
+    this.forUpdateColumns = columns.map((column) =>
+      this.identifiers.column(column),
+    );
+    return this;
+  }
+
+  @QueryBuilder.mutation
+  forReadOnly(): IQueryBuilder<T, R> {
+    if (this.cursorMode === 'FOR UPDATE') {
+      throw new Error('FOR READ ONLY cannot be combined with FOR UPDATE.');
+    }
+    this.cursorMode = 'FOR READ ONLY';
     return this;
   }
 
-  build(): { query: string; params: Record<string, any> } {
+  @QueryBuilder.mutation
+  skipLocked(): IQueryBuilder<T, R> {
+    this.skipLockedFlag = true;
+    return this;
+  }
+
+  @QueryBuilder.mutation
+  isolation(level: Db2IsolationLevel): IQueryBuilder<T, R> {
+    if (!(level in ISOLATION_CLAUSES)) {
+      throw new Error(`Unsupported isolation level '${level}'.`);
+    }
+    this.isolationLevel = level;
+    return this;
+  }
+
+  build(): { query: string; params: any[] } {
+    this.assertConcurrencyClauses();
+    if (
+      this.statementType !== 'SELECT' &&
+      this.commonTableExpressions.length > 0
+    ) {
+      throw new Error(
+        `Common table expressions are only supported in SELECT statements, not ${this.statementType}.`,
+      );
+    }
+    if (this.statementType !== 'SELECT' && this.systemTimeClause) {
+      throw new Error(
+        `FOR SYSTEM_TIME is only supported in SELECT statements, not ${this.statementType}.`,
+      );
+    }
+    switch (this.statementType) {
+      case 'INSERT':
+        return this.buildInsert();
+      case 'UPDATE':
+        return this.buildUpdate();
+      case 'DELETE':
+        return this.buildDelete();
+      case 'MERGE':
+        return this.buildMerge();
+      default:
+        return this.buildSelect();
+    }
+  }
+
+  private buildSelect(): { query: string; params: any[] } {
     let sql = '';
 
     // SELECT clause
-    if (this.countFlag && this.countColumn) {
-      sql += `SELECT COUNT(${this.countColumn}) AS ${this.countAlias} `;
-    } else {
-      sql += 'SELECT ';
-      if (this.distinctFlag) {
-        sql += 'DISTINCT ';
-      }
-      sql +=
-        this.selectColumns.length > 0 ? this.selectColumns.join(', ') : '*';
-      sql += ' ';
+    sql += 'SELECT ';
+    if (this.distinctFlag) {
+      sql += 'DISTINCT ';
     }
+    sql += this.selectColumns.length > 0 ? this.selectColumns.join(', ') : '*';
+    sql += ' ';
 
     // FROM clause
-    if (this.schemaName) {
-      sql += `${this.schemaName}.`;
+    if (this.tableName) {
+      sql += `FROM ${this.qualifiedTableName()} `;
+    }
+
+    // Period specification of a system-period temporal table
+    if (this.systemTimeClause) {
+      sql += `FOR SYSTEM_TIME ${this.systemTimeClause} `;
     }
-    sql += this.tableName ? `${this.tableName} ` : '';
 
     if (this.alias) {
       sql += `AS ${this.alias} `;
@@ -228,9 +958,7 @@ export class QueryBuilder<T> implements IQueryBuilder {
     }
 
     // WHERE clause
-    if (this.whereConditions.length > 0) {
-      sql += 'WHERE ' + this.whereConditions.join(' ') + ' ';
-    }
+    sql += this.buildWhereClause();
 
     // GROUP BY clause
     if (this.groupByColumns.length > 0) {
@@ -242,27 +970,589 @@ export class QueryBuilder<T> implements IQueryBuilder {
       sql += 'HAVING ' + this.havingConditions.join(' AND ') + ' ';
     }
 
-    // ORDER BY clause
-    if (this.orderByConditions.length > 0) {
-      sql += 'ORDER BY ' + this.orderByConditions.join(', ') + ' ';
+    // UNION, INTERSECT and EXCEPT operands
+    sql = this.applySetOperations(sql.trim());
+
+    // ORDER BY clause and row window
+    sql = this.paginator.paginate(sql, this.orderByConditions, {
+      limit: this.limitNumber,
+      offset: this.offsetNumber,
+      columns: this.resultColumns(),
+    });
+
+    // FOR UPDATE or FOR READ ONLY clause
+    if (this.cursorMode) {
+      sql += ` ${this.cursorMode}`;
+      if (this.forUpdateColumns.length > 0) {
+        sql += ` OF ${this.forUpdateColumns.join(', ')}`;
+      }
+    }
+
+    // OPTIMIZE FOR hint
+    if (this.optimizeForRows !== undefined) {
+      sql += ' ' + this.paginator.optimizeFor(this.optimizeForRows);
     }
 
-    // LIMIT and OFFSET
-    if (this.limitNumber !== undefined) {
-      sql += `LIMIT ${this.limitNumber} `;
+    // Isolation and concurrent access resolution clauses
+    sql += this.isolationClause();
+    if (this.skipLockedFlag) {
+      sql += ' SKIP LOCKED DATA';
     }
-    if (this.offsetNumber !== undefined) {
-      sql += `OFFSET ${this.offsetNumber} `;
+
+    // WITH clause, which must stay outside any pagination wrapper
+    if (this.commonTableExpressions.length > 0) {
+      const expressions = this.commonTableExpressions
+        .map(({ name, columns, sql: expression }) =>
+          columns.length > 0
+            ? `${name} (${columns.join(', ')}) AS (${expression})`
+            : `${name} AS (${expression})`,
+        )
+        .join(', ');
+      sql = `WITH ${expressions} ${sql}`;
     }
 
-    // Trim and return
-    sql = sql.trim() + ';';
-    const params = [...this.whereParams, ...this.havingParams];
+    sql += ';';
+    const params = [
+      ...this.commonTableParams,
+      ...this.systemTimeParams,
+      ...this.joinParams,
+      ...this.whereParams,
+      ...this.havingParams,
+      ...this.setOperations.flatMap((operation) => operation.params),
+    ];
     return { query: sql, params };
   }
 
-  public async execute(): Promise<any> {
+  private buildInsert(): { query: string; params: any[] } {
+    const placeholders = this.insertColumns.map(() => '?').join(', ');
+    const rows = this.insertRows.map(() => `(${placeholders})`).join(', ');
+    const sql = `INSERT INTO ${this.qualifiedTableName()} (${this.insertColumns.join(', ')}) VALUES ${rows};`;
+    return { query: sql, params: this.insertRows.flat() };
+  }
+
+  private buildUpdate(): { query: string; params: any[] } {
+    const columns = Object.keys(this.updateAssignments);
+    const setClause = columns.map((column) => `${column} = ?`).join(', ');
+    const sql =
+      `UPDATE ${this.qualifiedTableName()} SET ${setClause} ` +
+      this.buildWhereClause();
+    return {
+      query: sql.trim() + this.isolationClause() + ';',
+      params: [...Object.values(this.updateAssignments), ...this.whereParams],
+    };
+  }
+
+  private buildDelete(): { query: string; params: any[] } {
+    const sql =
+      `DELETE FROM ${this.qualifiedTableName()} ` + this.buildWhereClause();
+    return {
+      query: sql.trim() + this.isolationClause() + ';',
+      params: [...this.whereParams],
+    };
+  }
+
+  /**
+   * Builds a DB2 MERGE statement: the rows are supplied through a
+   * `VALUES` table reference and matched on the conflict target columns.
+   * The markers are cast, as their types cannot be inferred from `VALUES`.
+   */
+  private buildMerge(): { query: string; params: any[] } {
+    const placeholders = this.mergeColumnTypes
+      .map((type) => `CAST(? AS ${type})`)
+      .join(', ');
+    const rows = this.insertRows.map(() => `(${placeholders})`).join(', ');
+    const sourceColumns = this.insertColumns.join(', ');
+    const onClause = this.mergeKeys
+      .map((key) => `target.${key} = source.${key}`)
+      .join(' AND ');
+
+    let sql =
+      `MERGE INTO ${this.qualifiedTableName()} AS target ` +
+      `USING (VALUES ${rows}) AS source (${sourceColumns}) ` +
+      `ON ${onClause} `;
+
+    const params = this.insertRows.flat();
+
+    if (this.mergeUpdateColumns.length > 0) {
+      const useExplicitValues = this.mergeUpdateValues.length > 0;
+      const setClause = this.mergeUpdateColumns
+        .map((column) =>
+          useExplicitValues ? `${column} = ?` : `${column} = source.${column}`,
+        )
+        .join(', ');
+      sql += `WHEN MATCHED THEN UPDATE SET ${setClause} `;
+      params.push(...this.mergeUpdateValues);
+    }
+
+    const insertValues = this.insertColumns
+      .map((column) => `source.${column}`)
+      .join(', ');
+    sql += `WHEN NOT MATCHED THEN INSERT (${sourceColumns}) VALUES (${insertValues})`;
+
+    return { query: sql + ';', params };
+  }
+
+  private isolationClause(): string {
+    return this.isolationLevel
+      ? ` WITH ${ISOLATION_CLAUSES[this.isolationLevel]}`
+      : '';
+  }
+
+  /**
+   * Rejects locking and isolation clauses that Db2 does not accept for the
+   * statement being built.
+   */
+  private assertConcurrencyClauses(): void {
+    const isSelect = this.statementType === 'SELECT';
+    if (!isSelect && (this.cursorMode || this.skipLockedFlag)) {
+      throw new Error(
+        `FOR UPDATE, FOR READ ONLY and SKIP LOCKED DATA are only supported in SELECT statements, not ${this.statementType}.`,
+      );
+    }
+    if (this.isolationLevel) {
+      const clause = ISOLATION_CLAUSES[this.isolationLevel];
+      if (this.statementType === 'INSERT' || this.statementType === 'MERGE') {
+        throw new Error(
+          `Isolation clauses are not supported in ${this.statementType} statements.`,
+        );
+      }
+      if (!isSelect && clause === 'UR') {
+        throw new Error(
+          `Isolation level UR is not allowed in ${this.statementType} statements.`,
+        );
+      }
+    }
+    if (this.cursorMode === 'FOR UPDATE') {
+      const readOnlyReason = [
+        this.distinctFlag && 'DISTINCT',
+        this.groupByColumns.length > 0 && 'GROUP BY',
+        this.aggregateFlag && 'aggregate functions',
+        this.setOperations.length > 0 && 'set operations',
+      ].find(Boolean);
+      if (readOnlyReason) {
+        throw new Error(
+          `FOR UPDATE cannot be used with ${readOnlyReason}: the result is read-only.`,
+        );
+      }
+    }
+    if (
+      (this.cursorMode === 'FOR UPDATE' || this.skipLockedFlag) &&
+      this.paginator.usesRowNumber({ offset: this.offsetNumber })
+    ) {
+      throw new Error(
+        'FOR UPDATE and SKIP LOCKED DATA cannot be used with an offset under ROW_NUMBER pagination: the numbered result is read-only.',
+      );
+    }
+  }
+
+  /**
+   * The names of the result columns, or none when the select list has an
+   * unnamed expression, a `*` or a repeated name.
+   */
+  private resultColumns(): string[] {
+    const names = this.selectColumns.map(
+      (column) =>
+        column.match(RESULT_COLUMN_ALIAS)?.[1] ??
+        column.match(RESULT_COLUMN_REFERENCE)?.[1],
+    );
+    const known = names.filter((name): name is string => name !== undefined);
+    return known.length === names.length && new Set(known).size === known.length
+      ? known
+      : [];
+  }
+
+  private buildWhereClause(): string {
+    if (this.whereConditions.length === 0) {
+      return '';
+    }
+    return 'WHERE ' + this.whereConditions.join(' ') + ' ';
+  }
+
+  private compileCondition(
+    condition: string | WhereCondition,
+    params: any[] | Record<string, any>,
+  ): CompiledCondition {
+    if (typeof condition === 'string') {
+      return toPositionalStatement(condition, params);
+    }
+    return this.conditionCompiler.compile(condition);
+  }
+
+  /**
+   * Builds another builder for use inside this statement, without the
+   * statement terminator.
+   */
+  private nestedStatement(subquery: IQueryBuilder<any, any>): {
+    query: string;
+    params: any[];
+  } {
+    const { query, params } = subquery.build();
+    const nested = query.trim().replace(/;$/, '');
+    // Db2 only accepts common table expressions on the outermost fullselect.
+    if (/^WITH\s/i.test(nested)) {
+      throw new Error(
+        'Nested builders cannot declare common table expressions; declare them on the outer builder.',
+      );
+    }
+    return { query: nested, params };
+  }
+
+  private addSetOperation(
+    operator: SetOperator,
+    other: IQueryBuilder<any, any>,
+  ): IQueryBuilder<T, R> {
+    if (other === this) {
+      throw new Error(`Cannot apply ${operator} to a builder with itself.`);
+    }
+    const nested = this.nestedStatement(other);
+    this.setOperations.push({ operator, ...nested });
+    return this;
+  }
+
+  /**
+   * Combines the query with the set operation operands, each in parentheses.
+   * Operations are applied from left to right: as Db2 gives INTERSECT
+   * precedence over UNION and EXCEPT, the left side is parenthesized before it.
+   */
+  private applySetOperations(sql: string): string {
+    if (this.setOperations.length === 0) {
+      return sql;
+    }
+    let combined = `(${sql})`;
+    this.setOperations.forEach(({ operator, query }, index) => {
+      if (operator === 'INTERSECT' && index > 0) {
+        combined = `(${combined})`;
+      }
+      combined += ` ${operator} (${query})`;
+    });
+    return combined;
+  }
+
+  private addCommonTableExpression(
+    name: string,
+    columns: string[],
+    sql: string,
+  ): void {
+    if (!name) {
+      throw new Error('A common table expression requires a name.');
+    }
+    if (
+      this.commonTableExpressions.some(
+        (expression) =>
+          this.identifiers.fold(expression.name) ===
+          this.identifiers.fold(name),
+      )
+    ) {
+      throw new Error(`Common table expression '${name}' is already defined.`);
+    }
+    this.commonTableExpressions.push({
+      name: this.identifiers.identifier(name),
+      columns: columns.map((column) => this.identifiers.identifier(column)),
+      sql,
+    });
+  }
+
+  /**
+   * Adds an OLAP function to the select list as `func OVER (...) AS alias`.
+   */
+  private selectOlap(
+    func: string,
+    alias: string,
+    over: WindowSpecification<T>,
+    rules: { frame: boolean; ordered?: boolean },
+  ): IQueryBuilder<T, any> {
+    if (!alias) {
+      throw new Error(`${func} requires an alias.`);
+    }
+    if (rules.ordered && !this.windowOrder(over)) {
+      throw new Error(`${func} requires an ORDER BY in its window.`);
+    }
+    if (!rules.frame && over.frame) {
+      throw new Error(`${func} does not accept a window frame.`);
+    }
+    this.selectColumns.push(
+      `${func} OVER (${this.renderWindow(over)}) AS ${this.identifiers.alias(alias)}`,
+    );
+    return this.project();
+  }
+
+  private offsetFunction(
+    func: 'LAG' | 'LEAD',
+    column: string,
+    offset?: number,
+    defaultValue?: string | number,
+  ): string {
+    const args = [this.identifiers.column(column)];
+    if (offset !== undefined || defaultValue !== undefined) {
+      const rows = offset ?? 1;
+      if (!Number.isInteger(rows) || rows < 0) {
+        throw new Error(
+          `Invalid ${func} offset '${offset}': expected a non-negative integer.`,
+        );
+      }
+      args.push(String(rows));
+    }
+    if (defaultValue !== undefined) {
+      // Db2 does not accept an untyped parameter marker here, so the
+      // default is rendered as a literal.
+      args.push(
+        typeof defaultValue === 'number'
+          ? String(defaultValue)
+          : `'${defaultValue.replace(/'/g, "''")}'`,
+      );
+    }
+    return `${func}(${args.join(', ')})`;
+  }
+
+  private renderWindow(over: WindowSpecification<T>): string {
+    const clauses: string[] = [];
+
+    if (over.partitionBy) {
+      const columns = Array.isArray(over.partitionBy)
+        ? over.partitionBy
+        : [over.partitionBy];
+      if (columns.length > 0) {
+        clauses.push(
+          `PARTITION BY ${columns.map((column) => this.identifiers.column(column)).join(', ')}`,
+        );
+      }
+    }
+
+    const order = this.windowOrder(over);
+    if (order) {
+      clauses.push(`ORDER BY ${order}`);
+    }
+
+    if (over.frame) {
+      const { unit = 'ROWS', start, end = 'CURRENT ROW' } = over.frame;
+      clauses.push(
+        `${unit} BETWEEN ${this.renderFrameBound(start)} AND ${this.renderFrameBound(end)}`,
+      );
+    }
+
+    return clauses.join(' ');
+  }
+
+  private windowOrder(over: WindowSpecification<T>): string {
+    const { orderBy } = over;
+    if (!orderBy) {
+      return '';
+    }
+    if (typeof orderBy === 'string') {
+      return this.identifiers.column(orderBy);
+    }
+    if (Array.isArray(orderBy)) {
+      return orderBy
+        .map((column) => this.identifiers.column(column))
+        .join(', ');
+    }
+    return Object.entries(orderBy)
+      .map(([column, direction]) => {
+        if (
+          direction !== undefined &&
+          direction !== 'ASC' &&
+          direction !== 'DESC'
+        ) {
+          throw new Error(
+            `Invalid sort direction '${direction}': expected ASC or DESC.`,
+          );
+        }
+        return `${this.identifiers.column(column)} ${direction ?? 'ASC'}`;
+      })
+      .join(', ');
+  }
+
+  private renderFrameBound(bound: WindowFrameBound): string {
+    if (typeof bound === 'string') {
+      return bound;
+    }
+    const [direction, rows] =
+      'preceding' in bound
+        ? ['PRECEDING', bound.preceding]
+        : ['FOLLOWING', bound.following];
+    if (!Number.isInteger(rows) || rows < 0) {
+      throw new Error(
+        `Invalid window frame bound '${rows}': expected a non-negative integer.`,
+      );
+    }
+    return `${rows} ${direction}`;
+  }
+
+  /**
+   * Validates a joined table reference of the form `table [AS] alias`.
+   */
+  private tableReference(reference: string): string {
+    const match =
+      /^\s*((?:"(?:[^"]|"")*"|[^\s"])+)(?:\s+(?:AS\s+)?("(?:[^"]|"")*"|\S+))?\s*$/i.exec(
+        reference,
+      );
+    if (!match) {
+      throw new Error(`Invalid table reference '${reference}'.`);
+    }
+    const [, table, alias] = match;
+    const qualified = this.identifiers.qualified(table);
+    return alias
+      ? `${qualified} ${this.identifiers.identifier(alias)}`
+      : qualified;
+  }
+
+  /**
+   * Adds an aggregate to the selected columns.
+   */
+  private selectAggregate<P>(
+    expression: string,
+    alias: string,
+  ): IQueryBuilder<T, P> {
+    if (typeof alias !== 'string' || alias.length === 0) {
+      throw new Error(`${expression} requires an alias.`);
+    }
+    this.selectColumns.push(
+      `${expression} AS ${this.identifiers.alias(alias)}`,
+    );
+    this.aggregateFlag = true;
+    return this.project<P>();
+  }
+
+  /**
+   * Validates a SQL/JSON path and renders it as a string literal.
+   */
+  private jsonPath(path: string): string {
+    if (typeof path !== 'string' || !JSON_PATH.test(path.trim())) {
+      throw new Error(
+        `Invalid JSON path '${String(path)}': expected a path such as '$.address.city' or '$.items[*]'.`,
+      );
+    }
+    return `'${path.trim()}'`;
+  }
+
+  /**
+   * Validates a data type emitted in a JSON function, such as `INTEGER` or
+   * `DECIMAL(10, 2)`.
+   */
+  private sqlDataType(type: string): string {
+    if (typeof type !== 'string' || !SQL_DATA_TYPE.test(type.trim())) {
+      throw new Error(`Invalid SQL data type '${String(type)}'.`);
+    }
+    return type.trim().toUpperCase();
+  }
+
+  /**
+   * Sets the period specification, which selects the rows of a system-period
+   * temporal table that were current at a point or during a range of time.
+   */
+  private setSystemTime(clause: string, timestamps: any[]): this {
+    if (this.systemTimeClause) {
+      throw new Error('A query can only have one FOR SYSTEM_TIME clause.');
+    }
+    timestamps.forEach((timestamp) => {
+      const invalid =
+        timestamp instanceof Date
+          ? isNaN(timestamp.getTime())
+          : typeof timestamp !== 'string' || timestamp.trim() === '';
+      if (invalid) {
+        throw new Error(
+          `Invalid FOR SYSTEM_TIME timestamp '${String(timestamp)}': expected a valid Date or timestamp string.`,
+        );
+      }
+    });
+    this.systemTimeClause = clause;
+    // The driver cannot bind Date objects; Db2 reads the timestamp in local time
+    this.systemTimeParams = timestamps.map((timestamp) =>
+      timestamp instanceof Date ? formatDb2Timestamp(timestamp) : timestamp,
+    );
+    return this;
+  }
+
+  private qualifiedTableName(): string {
+    return this.schemaName
+      ? `${this.schemaName}.${this.tableName}`
+      : this.tableName;
+  }
+
+  private assertRowWidths(
+    columns: string[],
+    rows: any[][],
+    statement: string,
+  ): void {
+    rows.forEach((row, index) => {
+      if (row.length !== columns.length) {
+        throw new Error(
+          `${statement} row ${index} has ${row.length} values but ${columns.length} columns were specified.`,
+        );
+      }
+    });
+  }
+
+  public toSQL(options: SqlFormatOptions = {}): string {
+    const { query, params } = this.build();
+    return formatSql(query, params, options);
+  }
+
+  public async execute(): Promise<R[]> {
+    const { query, params } = this.build();
+    return this.client.query<R[]>(query, params);
+  }
+
+  public stream(options?: StreamOptions): AsyncIterable<R> {
+    const { query, params } = this.build();
+    return this.client.stream<R>(query, params, options);
+  }
+
+  public async batch(
+    statements: BatchStatement[] = [],
+    timeout?: number,
+  ): Promise<void> {
     const { query, params } = this.build();
-    return this.client.query(query, params);
+    await this.client.batch([{ sql: query, params }, ...statements], timeout);
+  }
+
+  /**
+   * Copies the state of the builder into a new one with the given options.
+   */
+  private copy(options: QueryBuilderOptions): QueryBuilder<T, R> {
+    const copy = new QueryBuilder<T, R>(this.table, this.client, options);
+    copy.statementType = this.statementType;
+    copy.selectColumns = [...this.selectColumns];
+    copy.distinctFlag = this.distinctFlag;
+    copy.schemaName = this.schemaName;
+    copy.tableName = this.tableName;
+    copy.alias = this.alias;
+    copy.systemTimeClause = this.systemTimeClause;
+    copy.systemTimeParams = [...this.systemTimeParams];
+    copy.whereConditions = [...this.whereConditions];
+    copy.whereParams = [...this.whereParams];
+    copy.orderByConditions = [...this.orderByConditions];
+    copy.limitNumber = this.limitNumber;
+    copy.offsetNumber = this.offsetNumber;
+    copy.optimizeForRows = this.optimizeForRows;
+    copy.joinConditions = [...this.joinConditions];
+    copy.joinParams = [...this.joinParams];
+    copy.commonTableExpressions = [...this.commonTableExpressions];
+    copy.commonTableParams = [...this.commonTableParams];
+    copy.setOperations = [...this.setOperations];
+    copy.cursorMode = this.cursorMode;
+    copy.forUpdateColumns = [...this.forUpdateColumns];
+    copy.isolationLevel = this.isolationLevel;
+    copy.skipLockedFlag = this.skipLockedFlag;
+    copy.groupByColumns = [...this.groupByColumns];
+    copy.havingConditions = [...this.havingConditions];
+    copy.havingParams = [...this.havingParams];
+    copy.aggregateFlag = this.aggregateFlag;
+    copy.insertColumns = [...this.insertColumns];
+    copy.insertRows = this.insertRows.map((row) => [...row]);
+    copy.updateAssignments = { ...this.updateAssignments };
+    copy.mergeKeys = [...this.mergeKeys];
+    copy.mergeColumnTypes = [...this.mergeColumnTypes];
+    copy.mergeUpdateColumns = [...this.mergeUpdateColumns];
+    copy.mergeUpdateValues = [...this.mergeUpdateValues];
+    copy.identifiers = this.identifiers.clone();
+    return copy;
+  }
+
+  /**
+   * Re-types the builder after a call that changes the shape of the result rows.
+   */
+  private project<P>(): IQueryBuilder<T, P> {
+    return this as unknown as IQueryBuilder<T, P>;
   }
 }
@@ -0,0 +1,126 @@
+// src/db/schema-builder.ts
+
+import { Client } from './client';
+import {
+  IdentifierOptions,
+  IndexOptions,
+  ISchemaBuilder,
+  ITableBuilder,
+} from '../interfaces';
+import { IdentifierQuoter } from './identifier-quoter';
+import { createIndexStatement, TableBuilder } from './table-builder';
+
+/**
+ * Builds Db2 DDL: tables, columns, constraints and indexes.
+ *
+ * @example
+ * ```ts
+ * await new SchemaBuilder(client)
+ *   .createTable('posts', (t) => {
+ *     t.integer('id').identity().primary();
+ *     t.varchar('title', 150).notNull();
+ *     t.integer('user_id').notNull().references('users', 'id', { onDelete: 'CASCADE' });
+ *     t.timestamp('created_at').notNull().defaultRaw('CURRENT TIMESTAMP');
+ *     t.index(['user_id']);
+ *   })
+ *   .execute();
+ * ```
+ */
+export class SchemaBuilder implements ISchemaBuilder {
+  private statements: string[] = [];
+  private readonly identifiers: IdentifierQuoter;
+
+  /**
+   * @param client The client executing the statements. Without one, the
+   * statements can only be built.
+   * @param options Identifier options. Defaults to the client's settings.
+   */
+  constructor(
+    private client?: Client,
+    options: IdentifierOptions = {},
+  ) {
+    this.identifiers = new IdentifierQuoter({
+      ...this.client?.getIdentifierOptions(),
+      ...options,
+    });
+  }
+
+  createTable(
+    name: string,
+    define: (table: ITableBuilder) => void,
+    options: { ifNotExists?: boolean } = {},
+  ): ISchemaBuilder {
+    const table = new TableBuilder(name, 'create', this.identifiers);
+    define(table);
+    this.statements.push(...table.build(options.ifNotExists));
+    return this;
+  }
+
+  alterTable(
+    name: string,
+    define: (table: ITableBuilder) => void,
+  ): ISchemaBuilder {
+    const table = new TableBuilder(name, 'alter', this.identifiers);
+    define(table);
+    this.statements.push(...table.build());
+    return this;
+  }
+
+  dropTable(
+    name: string,
+    options: { ifExists?: boolean } = {},
+  ): ISchemaBuilder {
+    this.statements.push(
+      `DROP TABLE ${options.ifExists ? 'IF EXISTS ' : ''}${this.identifiers.qualified(name)}`,
+    );
+    return this;
+  }
+
+  renameTable(from: string, to: string): ISchemaBuilder {
+    // Db2 keeps the schema of the table; the new name is unqualified
+    this.statements.push(
+      `RENAME TABLE ${this.identifiers.qualified(from)} TO ${this.identifiers.identifier(to)}`,
+    );
+    return this;
+  }
+
+  renameColumn(table: string, from: string, to: string): ISchemaBuilder {
+    return this.alterTable(table, (t) => t.renameColumn(from, to));
+  }
+
+  createIndex(
+    name: string,
+    table: string,
+    columns: string[],
+    options: IndexOptions = {},
+  ): ISchemaBuilder {
+    this.statements.push(
+      createIndexStatement(this.identifiers, name, table, columns, options),
+    );
+    return this;
+  }
+
+  dropIndex(name: string): ISchemaBuilder {
+    this.statements.push(`DROP INDEX ${this.identifiers.qualified(name)}`);
+    return this;
+  }
+
+  build(): string[] {
+    return [...this.statements];
+  }
+
+  toSQL(): string {
+    return this.statements.map((statement) => `${statement};`).join('\n');
+  }
+
+  async execute(): Promise<void> {
+    if (!this.client) {
+      throw new Error(
+        'Cannot execute a SchemaBuilder created without a client. Pass a client to the constructor, or use build() or toSQL() to get the statements.',
+      );
+    }
+    for (const statement of this.statements) {
+      await this.client.query(statement);
+    }
+  }
+}
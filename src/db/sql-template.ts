@@ -0,0 +1,145 @@
+// src/db/sql-template.ts
+
+import {
+  IClient,
+  ISqlFragment,
+  ISqlStatement,
+  SqlTag,
+  StreamOptions,
+} from '../interfaces';
+import { IdentifierQuoter } from './identifier-quoter';
+
+/**
+ * A piece of parameterized SQL produced by the `sql` tag or its helpers.
+ */
+export class SqlFragment implements ISqlFragment {
+  constructor(
+    readonly sql: string,
+    readonly params: any[] = [],
+  ) {}
+
+  /**
+   * Builds a fragment from the parts of a tagged template. Values become `?`
+   * markers, arrays expand to a list of markers and fragments are spliced in
+   * place.
+   */
+  static fromTemplate(
+    strings: ReadonlyArray<string>,
+    values: any[],
+  ): SqlFragment {
+    let sql = strings[0];
+    const params: any[] = [];
+
+    values.forEach((value, index) => {
+      const fragment = SqlFragment.fromValue(value);
+      sql += fragment.sql + strings[index + 1];
+      params.push(...fragment.params);
+    });
+
+    return new SqlFragment(sql, params);
+  }
+
+  /**
+   * Converts an interpolated value to a fragment.
+   * @throws Error for an empty array, which would produce invalid SQL.
+   */
+  static fromValue(value: any): SqlFragment {
+    if (value instanceof SqlFragment) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      if (value.length === 0) {
+        throw new Error(
+          'Cannot interpolate an empty array into a SQL template.',
+        );
+      }
+      return new SqlFragment(value.map(() => '?').join(', '), [...value]);
+    }
+    return new SqlFragment('?', [value]);
+  }
+}
+
+/**
+ * A statement produced by `client.sql`. It is a fragment, so it can be
+ * composed into other statements, and it only runs against the client when
+ * `execute` or `stream` is called. It is deliberately not thenable, so
+ * returning or awaiting a fragment never runs it.
+ */
+export class SqlStatement<T = any>
+  extends SqlFragment
+  implements ISqlStatement<T>
+{
+  constructor(
+    private readonly client: IClient,
+    sql: string,
+    params: any[],
+  ) {
+    super(sql, params);
+  }
+
+  /**
+   * Executes the statement.
+   * @returns The rows of the result set.
+   */
+  execute(): Promise<T[]> {
+    return this.client.query<T[]>(this.sql, this.params);
+  }
+
+  /**
+   * Executes the statement and yields the rows as they are fetched.
+   * @param options The number of rows to fetch per batch and the timeout.
+   */
+  stream(options?: StreamOptions): AsyncIterable<T> {
+    return this.client.stream<T>(this.sql, this.params, options);
+  }
+}
+
+/**
+ * Creates the `sql` template tag of a client.
+ *
+ * @example
+ * ```ts
+ * const sql = createSqlTag(client);
+ * const columns = sql.join(['id', 'name'].map((name) => sql.identifier(name)));
+ * const active = sql`status = ${'active'}`;
+ * const users = await sql<User>`SELECT ${columns} FROM users WHERE ${active} AND id IN (${[1, 2]})`.execute();
+ * // SELECT id, name FROM users WHERE status = ? AND id IN (?, ?)
+ * ```
+ *
+ * @param client The client statements are executed with.
+ * @returns The template tag.
+ */
+export function createSqlTag(client: IClient): SqlTag {
+  const tag = <T = any>(
+    strings: TemplateStringsArray,
+    ...values: any[]
+  ): SqlStatement<T> => {
+    const fragment = SqlFragment.fromTemplate(strings, values);
+    return new SqlStatement<T>(client, fragment.sql, fragment.params);
+  };
+
+  return Object.assign(tag, {
+    join(values: any[], separator: string | ISqlFragment = ', '): SqlFragment {
+      const glue =
+        typeof separator === 'string'
+          ? new SqlFragment(separator)
+          : new SqlFragment(separator.sql, separator.params);
+      const parts = values.map((value) => SqlFragment.fromValue(value));
+      return new SqlFragment(
+        parts.map((part) => part.sql).join(glue.sql),
+        parts.flatMap((part, index) =>
+          index === 0 ? part.params : [...glue.params, ...part.params],
+        ),
+      );
+    },
+
+    identifier(name: string): SqlFragment {
+      const quoter = new IdentifierQuoter(client.getIdentifierOptions());
+      return new SqlFragment(quoter.qualified(name));
+    },
+
+    raw(sql: string): SqlFragment {
+      return new SqlFragment(sql);
+    },
+  });
+}
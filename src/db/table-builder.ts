@@ -0,0 +1,573 @@
+// src/db/table-builder.ts
+
+import {
+  IColumnBuilder,
+  IdentityOptions,
+  IndexOptions,
+  ITableBuilder,
+  ReferenceOptions,
+} from '../interfaces';
+import { toSqlLiteral } from '../utils';
+import { IdentifierQuoter } from './identifier-quoter';
+
+/**
+ * Data types accepted by `column()`: keywords with an optional length,
+ * precision or LOB size, such as `VARCHAR(20) FOR BIT DATA` or `CLOB(2M)`.
+ */
+const DATA_TYPE =
+  /^[A-Z]+(?: [A-Z]+)*(?:\s*\(\s*\d+\s*[KMG]?(?:\s*,\s*\d+)?\s*\))?(?: [A-Z]+)*$/i;
+
+const LOB_SIZE = /^\d+[KMG]?$/i;
+
+const DELETE_ACTIONS: ReadonlyArray<string> = [
+  'CASCADE',
+  'SET NULL',
+  'RESTRICT',
+  'NO ACTION',
+];
+
+const UPDATE_ACTIONS: ReadonlyArray<string> = ['RESTRICT', 'NO ACTION'];
+
+/**
+ * Renders `CREATE INDEX`.
+ */
+export function createIndexStatement(
+  identifiers: IdentifierQuoter,
+  name: string,
+  table: string,
+  columns: string[],
+  options: IndexOptions = {},
+): string {
+  if (!Array.isArray(columns) || columns.length === 0) {
+    throw new Error(`Index '${name}' requires at least one column.`);
+  }
+  if (options.include?.length && !options.unique) {
+    throw new Error(
+      `Index '${name}' can only include columns if it is unique.`,
+    );
+  }
+  const unique = options.unique ? 'UNIQUE ' : '';
+  const include = options.include?.length
+    ? ` INCLUDE (${columnList(identifiers, options.include)})`
+    : '';
+  return `CREATE ${unique}INDEX ${identifiers.qualified(name)} ON ${identifiers.qualified(table)} (${columnList(identifiers, columns)})${include}`;
+}
+
+/**
+ * Renders `REFERENCES table (columns)` with its referential actions.
+ */
+function referencesClause(
+  identifiers: IdentifierQuoter,
+  table: string,
+  columns: string[],
+  options: ReferenceOptions,
+): string {
+  let clause = `REFERENCES ${identifiers.qualified(table)} (${columnList(identifiers, columns)})`;
+  if (options.onDelete) {
+    if (!DELETE_ACTIONS.includes(options.onDelete)) {
+      throw new Error(
+        `Invalid ON DELETE action '${options.onDelete}': expected one of ${DELETE_ACTIONS.join(', ')}.`,
+      );
+    }
+    clause += ` ON DELETE ${options.onDelete}`;
+  }
+  if (options.onUpdate) {
+    if (!UPDATE_ACTIONS.includes(options.onUpdate)) {
+      throw new Error(
+        `Invalid ON UPDATE action '${options.onUpdate}': Db2 only supports ${UPDATE_ACTIONS.join(' and ')}.`,
+      );
+    }
+    clause += ` ON UPDATE ${options.onUpdate}`;
+  }
+  return clause;
+}
+
+function columnList(identifiers: IdentifierQuoter, columns: string[]): string {
+  return columns.map((column) => identifiers.identifier(column)).join(', ');
+}
+
+function constraintName(
+  identifiers: IdentifierQuoter,
+  name: string | undefined,
+): string {
+  return name ? `CONSTRAINT ${identifiers.identifier(name)} ` : '';
+}
+
+function quoteText(text: string): string {
+  if (typeof text !== 'string') {
+    throw new Error(`Invalid comment '${String(text)}': expected a string.`);
+  }
+  return toSqlLiteral(text);
+}
+
+/**
+ * A column of a table being created or altered.
+ */
+export class ColumnBuilder implements IColumnBuilder {
+  private notNullFlag = false;
+  private defaultClause?: string;
+  private identityClause?: string;
+  private uniqueFlag = false;
+  private referencesClauses: string[] = [];
+  private checkConditions: string[] = [];
+  private commentText?: string;
+
+  constructor(
+    readonly name: string,
+    private readonly type: string,
+    private readonly table: TableBuilder,
+    private readonly identifiers: IdentifierQuoter,
+  ) {
+    this.identifiers.identifier(name);
+  }
+
+  notNull(): IColumnBuilder {
+    this.notNullFlag = true;
+    return this;
+  }
+
+  nullable(): IColumnBuilder {
+    this.notNullFlag = false;
+    return this;
+  }
+
+  default(value: string | number | boolean | Date | null): IColumnBuilder {
+    this.defaultClause = `DEFAULT ${toSqlLiteral(value)}`;
+    return this;
+  }
+
+  defaultRaw(expression: string): IColumnBuilder {
+    if (typeof expression !== 'string' || expression.trim() === '') {
+      throw new Error(`Invalid default expression for column '${this.name}'.`);
+    }
+    this.defaultClause = `DEFAULT ${expression.trim()}`;
+    return this;
+  }
+
+  identity(options: IdentityOptions = {}): IColumnBuilder {
+    const start = options.start ?? 1;
+    const increment = options.increment ?? 1;
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(increment) ||
+      !increment
+    ) {
+      throw new Error(
+        `Invalid identity options for column '${this.name}': start must be an integer and increment a non-zero integer.`,
+      );
+    }
+    const generated = options.always ? 'ALWAYS' : 'BY DEFAULT';
+    this.identityClause = `GENERATED ${generated} AS IDENTITY (START WITH ${start} INCREMENT BY ${increment})`;
+    this.notNullFlag = true;
+    return this;
+  }
+
+  primary(): IColumnBuilder {
+    this.table.addPrimaryColumn(this.name);
+    return this;
+  }
+
+  unique(): IColumnBuilder {
+    this.uniqueFlag = true;
+    this.notNullFlag = true;
+    return this;
+  }
+
+  references(
+    table: string,
+    column: string = 'id',
+    options: ReferenceOptions = {},
+  ): IColumnBuilder {
+    this.referencesClauses.push(
+      `${constraintName(this.identifiers, options.name)}${referencesClause(this.identifiers, table, [column], options)}`,
+    );
+    return this;
+  }
+
+  check(condition: string): IColumnBuilder {
+    if (typeof condition !== 'string' || condition.trim() === '') {
+      throw new Error(`Invalid check condition for column '${this.name}'.`);
+    }
+    this.checkConditions.push(condition.trim());
+    return this;
+  }
+
+  comment(text: string): IColumnBuilder {
+    this.commentText = quoteText(text);
+    return this;
+  }
+
+  /**
+   * Renders the column definition, as used in CREATE TABLE and ADD COLUMN.
+   */
+  definition(): string {
+    if (this.defaultClause && this.identityClause) {
+      throw new Error(
+        `Column '${this.name}' cannot have both a default and an identity.`,
+      );
+    }
+    return [
+      this.identifiers.identifier(this.name),
+      this.type,
+      this.notNullFlag && 'NOT NULL',
+      this.defaultClause,
+      this.identityClause,
+      this.uniqueFlag && 'UNIQUE',
+      ...this.referencesClauses,
+      ...this.checkConditions.map((condition) => `CHECK (${condition})`),
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  /**
+   * Renders the `COMMENT ON COLUMN` statement, if the column has a comment.
+   */
+  commentStatement(table: string): string | undefined {
+    return this.commentText
+      ? `COMMENT ON COLUMN ${table}.${this.identifiers.identifier(this.name)} IS ${this.commentText}`
+      : undefined;
+  }
+}
+
+/**
+ * The columns, constraints and changes of a table, declared in the callback
+ * of `createTable` or `alterTable`.
+ */
+export class TableBuilder implements ITableBuilder {
+  private readonly columns: ColumnBuilder[] = [];
+  // Changes in the order they were declared: added columns and ALTER TABLE clauses
+  private readonly changes: (ColumnBuilder | string)[] = [];
+  private readonly constraints: string[] = [];
+  private primaryKey?: { columns: string[]; name?: string };
+  private readonly statements: string[] = [];
+  private commentText?: string;
+  private reorgRequired = false;
+
+  constructor(
+    private readonly table: string,
+    private readonly mode: 'create' | 'alter',
+    private readonly identifiers: IdentifierQuoter,
+  ) {
+    this.identifiers.qualified(table);
+  }
+
+  column(name: string, type: string): IColumnBuilder {
+    if (typeof type !== 'string' || !DATA_TYPE.test(type.trim())) {
+      throw new Error(
+        `Invalid data type '${String(type)}' for column '${name}'.`,
+      );
+    }
+    const column = new ColumnBuilder(
+      name,
+      type.trim().toUpperCase(),
+      this,
+      this.identifiers,
+    );
+    this.columns.push(column);
+    this.changes.push(column);
+    return column;
+  }
+
+  smallint(name: string): IColumnBuilder {
+    return this.column(name, 'SMALLINT');
+  }
+
+  integer(name: string): IColumnBuilder {
+    return this.column(name, 'INTEGER');
+  }
+
+  bigint(name: string): IColumnBuilder {
+    return this.column(name, 'BIGINT');
+  }
+
+  decimal(
+    name: string,
+    precision: number = 10,
+    scale: number = 0,
+  ): IColumnBuilder {
+    if (
+      !Number.isInteger(precision) ||
+      precision < 1 ||
+      precision > 31 ||
+      !Number.isInteger(scale) ||
+      scale < 0 ||
+      scale > precision
+    ) {
+      throw new Error(
+        `Invalid DECIMAL(${precision}, ${scale}) for column '${name}': precision must be 1 to 31 and scale 0 to the precision.`,
+      );
+    }
+    return this.column(name, `DECIMAL(${precision}, ${scale})`);
+  }
+
+  decfloat(name: string, digits: 16 | 34 = 34): IColumnBuilder {
+    if (digits !== 16 && digits !== 34) {
+      throw new Error(
+        `Invalid DECFLOAT(${digits}) for column '${name}': expected 16 or 34 digits.`,
+      );
+    }
+    return this.column(name, `DECFLOAT(${digits})`);
+  }
+
+  real(name: string): IColumnBuilder {
+    return this.column(name, 'REAL');
+  }
+
+  double(name: string): IColumnBuilder {
+    return this.column(name, 'DOUBLE');
+  }
+
+  varchar(name: string, length: number = 255): IColumnBuilder {
+    return this.column(name, `VARCHAR(${this.length(name, length)})`);
+  }
+
+  char(name: string, length: number = 1): IColumnBuilder {
+    return this.column(name, `CHAR(${this.length(name, length)})`);
+  }
+
+  clob(name: string, size: string = '1M'): IColumnBuilder {
+    return this.column(name, `CLOB(${this.lobSize(name, size)})`);
+  }
+
+  blob(name: string, size: string = '1M'): IColumnBuilder {
+    return this.column(name, `BLOB(${this.lobSize(name, size)})`);
+  }
+
+  boolean(name: string): IColumnBuilder {
+    return this.column(name, 'BOOLEAN');
+  }
+
+  date(name: string): IColumnBuilder {
+    return this.column(name, 'DATE');
+  }
+
+  time(name: string): IColumnBuilder {
+    return this.column(name, 'TIME');
+  }
+
+  timestamp(name: string, precision: number = 6): IColumnBuilder {
+    if (!Number.isInteger(precision) || precision < 0 || precision > 12) {
+      throw new Error(
+        `Invalid TIMESTAMP(${precision}) for column '${name}': precision must be 0 to 12.`,
+      );
+    }
+    return this.column(name, `TIMESTAMP(${precision})`);
+  }
+
+  json(name: string): IColumnBuilder {
+    return this.column(name, 'CLOB(1M)');
+  }
+
+  xml(name: string): IColumnBuilder {
+    return this.column(name, 'XML');
+  }
+
+  primary(columns: string[], name?: string): ITableBuilder {
+    if (this.primaryKey) {
+      throw new Error(`Table '${this.table}' can only have one primary key.`);
+    }
+    this.assertColumns(columns, 'A primary key');
+    this.primaryKey = { columns: [...columns], name };
+    this.requireNotNull(columns);
+    return this;
+  }
+
+  unique(columns: string[], name?: string): ITableBuilder {
+    this.assertColumns(columns, 'A unique constraint');
+    this.requireNotNull(columns);
+    return this.addConstraint(
+      `${constraintName(this.identifiers, name)}UNIQUE (${columnList(this.identifiers, columns)})`,
+    );
+  }
+
+  foreign(
+    columns: string[],
+    table: string,
+    referencedColumns: string[],
+    options: ReferenceOptions = {},
+  ): ITableBuilder {
+    this.assertColumns(columns, 'A foreign key');
+    if (referencedColumns?.length !== columns.length) {
+      throw new Error(
+        'A foreign key must reference as many columns as it has.',
+      );
+    }
+    return this.addConstraint(
+      `${constraintName(this.identifiers, options.name)}FOREIGN KEY (${columnList(this.identifiers, columns)}) ${referencesClause(this.identifiers, table, referencedColumns, options)}`,
+    );
+  }
+
+  check(name: string, condition: string): ITableBuilder {
+    if (typeof condition !== 'string' || condition.trim() === '') {
+      throw new Error(`Invalid condition for check constraint '${name}'.`);
+    }
+    return this.addConstraint(
+      `${constraintName(this.identifiers, name)}CHECK (${condition.trim()})`,
+    );
+  }
+
+  index(
+    columns: string[],
+    name?: string,
+    options: IndexOptions = {},
+  ): ITableBuilder {
+    this.assertColumns(columns, 'An index');
+    const parts = this.table.split('.');
+    const indexName =
+      name ??
+      [
+        ...parts.slice(0, -1),
+        `${parts[parts.length - 1]}_${columns.join('_')}_idx`,
+      ].join('.');
+    this.statements.push(
+      createIndexStatement(
+        this.identifiers,
+        indexName,
+        this.table,
+        columns,
+        options,
+      ),
+    );
+    return this;
+  }
+
+  comment(text: string): ITableBuilder {
+    this.commentText = quoteText(text);
+    return this;
+  }
+
+  dropColumn(name: string): ITableBuilder {
+    this.assertAlter('dropColumn');
+    this.changes.push(`DROP COLUMN ${this.identifiers.identifier(name)}`);
+    this.reorgRequired = true;
+    return this;
+  }
+
+  renameColumn(from: string, to: string): ITableBuilder {
+    this.assertAlter('renameColumn');
+    this.changes.push(
+      `RENAME COLUMN ${this.identifiers.identifier(from)} TO ${this.identifiers.identifier(to)}`,
+    );
+    return this;
+  }
+
+  dropConstraint(name: string): ITableBuilder {
+    this.assertAlter('dropConstraint');
+    this.changes.push(`DROP CONSTRAINT ${this.identifiers.identifier(name)}`);
+    return this;
+  }
+
+  /**
+   * Adds a column to the primary key, for `primary()` on a column.
+   */
+  addPrimaryColumn(name: string): void {
+    this.primaryKey ??= { columns: [] };
+    this.primaryKey.columns.push(name);
+    this.requireNotNull([name]);
+  }
+
+  /**
+   * Renders the statements for the table.
+   * @param ifNotExists Adds `IF NOT EXISTS` to CREATE TABLE.
+   */
+  build(ifNotExists = false): string[] {
+    const table = this.identifiers.qualified(this.table);
+    const constraints = [...this.constraints];
+    if (this.primaryKey) {
+      constraints.unshift(
+        `${constraintName(this.identifiers, this.primaryKey.name)}PRIMARY KEY (${columnList(this.identifiers, this.primaryKey.columns)})`,
+      );
+    }
+
+    const statements: string[] = [];
+    if (this.mode === 'create') {
+      if (this.columns.length === 0) {
+        throw new Error(`Table '${this.table}' requires at least one column.`);
+      }
+      const elements = [
+        ...this.columns.map((column) => column.definition()),
+        ...constraints,
+      ];
+      statements.push(
+        `CREATE TABLE ${ifNotExists ? 'IF NOT EXISTS ' : ''}${table} (\n  ${elements.join(',\n  ')}\n)`,
+      );
+    } else {
+      for (const change of this.changes) {
+        const clause =
+          change instanceof ColumnBuilder
+            ? `ADD COLUMN ${change.definition()}`
+            : change;
+        statements.push(`ALTER TABLE ${table} ${clause}`);
+      }
+      for (const constraint of constraints) {
+        statements.push(`ALTER TABLE ${table} ADD ${constraint}`);
+      }
+      if (this.reorgRequired) {
+        // Dropping a column leaves the table in reorg-pending state
+        statements.push(
+          `CALL SYSPROC.ADMIN_CMD(${toSqlLiteral(`REORG TABLE ${table}`)})`,
+        );
+      }
+      if (statements.length === 0 && this.statements.length === 0) {
+        throw new Error(`No changes declared for table '${this.table}'.`);
+      }
+    }
+
+    statements.push(...this.statements);
+    if (this.commentText) {
+      statements.push(`COMMENT ON TABLE ${table} IS ${this.commentText}`);
+    }
+    for (const column of this.columns) {
+      const comment = column.commentStatement(table);
+      if (comment) {
+        statements.push(comment);
+      }
+    }
+    return statements;
+  }
+
+  private addConstraint(constraint: string): ITableBuilder {
+    this.constraints.push(constraint);
+    return this;
+  }
+
+  // Db2 requires the columns of primary keys and unique constraints to be NOT NULL
+  private requireNotNull(columns: string[]): void {
+    for (const column of this.columns) {
+      if (columns.includes(column.name)) {
+        column.notNull();
+      }
+    }
+  }
+
+  private assertColumns(columns: string[], what: string): void {
+    if (!Array.isArray(columns) || columns.length === 0) {
+      throw new Error(`${what} requires at least one column.`);
+    }
+  }
+
+  private assertAlter(method: string): void {
+    if (this.mode !== 'alter') {
+      throw new Error(`${method}() can only be used in alterTable().`);
+    }
+  }
+
+  private length(name: string, length: number): number {
+    if (!Number.isInteger(length) || length < 1) {
+      throw new Error(
+        `Invalid length ${length} for column '${name}': expected a positive integer.`,
+      );
+    }
+    return length;
+  }
+
+  private lobSize(name: string, size: string): string {
+    if (typeof size !== 'string' || !LOB_SIZE.test(size)) {
+      throw new Error(
+        `Invalid LOB size '${String(size)}' for column '${name}': expected a size such as '64K', '1M' or '2G'.`,
+      );
+    }
+    return size.toUpperCase();
+  }
+}
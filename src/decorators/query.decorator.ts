@@ -1,4 +1,4 @@
-import { Logger } from '../utils';
+import { hasNamedParameters, Logger } from '../utils';
 import { IConnectionManager } from '../interfaces';
 
 /**
@@ -6,7 +6,9 @@ import { IConnectionManager } from '../interfaces';
  * @description A method decorator that uses Db2ConnectionManager to acquire a connection,
  * execute the given query, and then release the connection back to the pool.
  *
- * @param {string} query - The SQL query to execute.
+ * @param {string} query - The SQL query to execute. With `:name` markers, the first
+ * method argument supplies the parameters by name; otherwise the method arguments are
+ * bound to the `?` markers in order.
  * @param {boolean} [executeQuery=true] - A flag to control whether to execute the query or bypass it.
  * @returns {MethodDecorator} - A method decorator that wraps the original method with query execution logic.
  *
@@ -20,6 +22,11 @@ import { IConnectionManager } from '../interfaces';
  *   async getUserData(userId: string) {
  *     // Method logic here, `queryResult` is injected as the first parameter
  *   }
+ *
+ *   @Db2Query('SELECT * FROM orders WHERE user_id = :userId AND status = :status')
+ *   async getOrders(params: { userId: number; status: string }) {
+ *     // Method logic here
+ *   }
  * }
  */
 export const Query = (query: string, executeQuery = true): MethodDecorator => {
@@ -61,7 +68,8 @@ export const Query = (query: string, executeQuery = true): MethodDecorator => {
           logger.info(`Acquired DB2 connection for query: ${query}`);
 
           // Execute the query using the acquired connection
-          queryResult = await db2Client.query(query, args);
+          const params = hasNamedParameters(query) ? (args[0] ?? {}) : args;
+          queryResult = await db2Client.query(query, params);
           logger.info(`Query executed successfully: ${query}`);
         } catch (error) {
           logger.error(`Error executing query: ${query} - ${error.message}`);
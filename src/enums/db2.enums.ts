@@ -5,10 +5,14 @@
  * @enum {string} Db2ConnectionState
  * @enum {string} Db2IsolationLevel
  * @enum {string} Db2AuthType
+ * @enum {string} Db2Dialect
+ * @enum {string} Db2PaginationStrategy
  *
  * @exports Db2ConnectionState
  * @exports Db2IsolationLevel
  * @exports Db2AuthType
+ * @exports Db2Dialect
+ * @exports Db2PaginationStrategy
  */
 
 /**
@@ -55,3 +59,22 @@ export enum Db2AuthType {
   JWT = 'jwt', // JWT-based authentication
   LDAP = 'ldap', // LDAP-based authentication
 }
+
+/**
+ * @enum Db2Dialect
+ * @description The Db2 platform a connection targets. Used to pick SQL syntax that differs between platforms.
+ */
+export enum Db2Dialect {
+  LUW = 'LUW', // Db2 for Linux, UNIX and Windows
+  ZOS = 'ZOS', // Db2 for z/OS
+  IBMI = 'IBMI', // Db2 for i
+}
+
+/**
+ * @enum Db2PaginationStrategy
+ * @description How row windows (limit/offset) are rendered in generated SELECT statements.
+ */
+export enum Db2PaginationStrategy {
+  OFFSET_FETCH = 'OFFSET_FETCH', // OFFSET m ROWS FETCH FIRST n ROWS ONLY
+  ROW_NUMBER = 'ROW_NUMBER', // ROW_NUMBER() OVER (...) wrapped in a derived table
+}
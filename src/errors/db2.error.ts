@@ -8,11 +8,13 @@
  * @class Db2TimeoutError
  * @class Db2AuthenticationError
  * @class Db2ConnectionError
+ * @class Db2InvalidIdentifierError
  *
  * @exports Db2Error
  * @exports Db2TimeoutError
  * @exports Db2AuthenticationError
  * @exports Db2ConnectionError
+ * @exports Db2InvalidIdentifierError
  */
 
 import { Logger } from '../utils';
@@ -105,6 +107,17 @@ export class Db2PoolError extends Db2Error {
   }
 }
 
+/**
+ * Custom error class for table, column and alias names that cannot be
+ * safely emitted in SQL, or that are unknown to the entity in strict mode.
+ */
+export class Db2InvalidIdentifierError extends Db2Error {
+  constructor(message: string, metadata?: Record<string, any>) {
+    super(message, 'DB2_INVALID_IDENTIFIER_ERROR', metadata);
+    this.name = 'Db2InvalidIdentifierError';
+  }
+}
+
 export function formatDb2Error(
   error: any,
   context: string,
@@ -0,0 +1,33 @@
+// src/interfaces/aggregate.interface.ts
+
+import { EntityColumn } from './query-builder.interface';
+
+/**
+ * An aggregate computed by `Model.aggregate()`, keyed by the function name.
+ *
+ * @example
+ * ```ts
+ * const total: AggregateExpression<Order> = { sum: 'amount' };
+ * const customers: AggregateExpression<Order> = { countDistinct: 'customer_id' };
+ * ```
+ */
+export type AggregateExpression<T> =
+  | { count: EntityColumn<T> | '*' }
+  | { countDistinct: EntityColumn<T> }
+  | { sum: EntityColumn<T> }
+  | { avg: EntityColumn<T> }
+  | { min: EntityColumn<T> }
+  | { max: EntityColumn<T> };
+
+/**
+ * The result row of a set of aggregates: MIN and MAX keep the type of their
+ * column, the other aggregates are numbers.
+ */
+export type AggregateResult<
+  T,
+  A extends Record<string, AggregateExpression<T>>,
+> = {
+  [K in keyof A]: A[K] extends { min: infer C } | { max: infer C }
+    ? T[C & keyof T]
+    : number;
+};
@@ -1,5 +1,9 @@
 import { Db2ConnectionState } from '../enums';
 import { Connection } from 'ibm_db';
+import { PaginationOptions } from './paginator.interface';
+import { IdentifierOptions } from './identifier.interface';
+import { SqlTag } from './sql-template.interface';
+import { IQueryBuilder } from './query-builder.interface';
 
 export interface IClient {
   // Lifecycle methods
@@ -24,6 +28,13 @@ export interface IClient {
     params?: Record<string, any>,
     timeout?: number,
   ): Promise<T>;
+  stream<T>(
+    sql: string,
+    params?: any[] | Record<string, any>,
+    options?: StreamOptions,
+  ): AsyncGenerator<T, void, undefined>;
+  readonly sql: SqlTag;
+  batch(statements: BatchStatement[], timeout?: number): Promise<void>;
   executePreparedStatement<T>(sql: string, params?: any[]): Promise<T>;
   batchInsert(
     tableName: string,
@@ -48,8 +59,28 @@ export interface IClient {
 
   // Connection pool status
   getActiveConnectionsCount(): number;
+
+  // SQL dialect settings
+  getPaginationOptions(): PaginationOptions;
+  getIdentifierOptions(): IdentifierOptions;
 }
 
+/**
+ * Options for streaming a result set.
+ */
+export interface StreamOptions {
+  fetchSize?: number; // Rows fetched before they are yielded. Defaults to the configured fetchSize
+  timeout?: number; // Limit in milliseconds for running the query and for fetching each batch. Defaults to the configured queryTimeout
+}
+
+/**
+ * A statement of an atomic batch: raw SQL with its parameters, a fragment
+ * from the `sql` tag, or a query builder.
+ */
+export type BatchStatement =
+  | { sql: string; params?: any[] | Record<string, any> }
+  | IQueryBuilder<any, any>;
+
 export interface Db2ClientState {
   connectionState: Db2ConnectionState;
   activeConnections: number;
@@ -1,4 +1,4 @@
-import { Db2IsolationLevel } from '../enums';
+import { Db2Dialect, Db2IsolationLevel, Db2PaginationStrategy } from '../enums';
 import {
   Db2AuthOptions,
   Db2ConnectionOptions,
@@ -21,12 +21,20 @@ export interface IConfigOptions extends Db2ConnectionOptions {
 
   defaultIsolationLevel?: Db2IsolationLevel;
 
+  dialect?: Db2Dialect;
+  paginationStrategy?: Db2PaginationStrategy;
+  strictIdentifiers?: boolean;
+
   poolOptions?: IPoolOptions;
 
   fetchSize?: number;
   queryTimeout?: number;
   autoCommit?: boolean;
   statementCacheSize?: number;
+  /**
+   * @deprecated Not used: the driver fetches one row per call, and
+   * `fetchSize` sets how many rows a stream fetches per batch.
+   */
   prefetchSize?: number;
 
   characterEncoding?: string;
@@ -12,6 +12,10 @@ export interface Db2ConnectionOptions {
   autoCommit?: boolean;
   fetchSize?: number;
   queryTimeout?: number;
+  /**
+   * @deprecated Not used: the driver fetches one row per call, and
+   * `fetchSize` sets how many rows a stream fetches per batch.
+   */
   prefetchSize?: number;
   characterEncoding?: string;
   useTls?: boolean;
@@ -82,11 +86,20 @@ export type Db2AuthOptions =
   | Db2JwtAuthOptions
   | Db2LdapAuthOptions;
 
+/**
+ * Options for rendering a statement in logs and tests.
+ */
+export interface SqlFormatOptions {
+  pretty?: boolean; // Start each clause on a new line and indent subqueries
+  inlineParams?: boolean; // Replace the ? markers with the parameter values as SQL literals
+}
+
 /**
  * Interface for logging options.
  */
 export interface Db2LoggingOptions {
   logQueries?: boolean;
+  queryFormat?: SqlFormatOptions; // How logged queries are rendered when logQueries is on
   logErrors?: boolean;
   profileSql?: boolean;
   traceFilePath?: string;
@@ -0,0 +1,22 @@
+// src/interfaces/identifier.interface.ts
+
+import { ScopeFunction } from './query-builder.interface';
+
+/**
+ * Options that control how table, column and alias names are validated.
+ */
+export interface IdentifierOptions {
+  strict?: boolean; // Reject columns that are not part of the entity metadata
+}
+
+/**
+ * Options for a query builder.
+ */
+export interface QueryBuilderOptions extends IdentifierOptions {
+  columns?: string[]; // The entity's column names, checked in strict mode
+  columnName?: (property: string) => string; // Maps entity property names to the column names emitted in SQL
+  columnValue?: (property: string, value: any) => any; // Converts values compared in structured conditions to their column representation
+  columnTypes?: Record<string, string>; // SQL data types of columns, e.g. { id: 'INTEGER' }, which upsert() casts its values to
+  immutable?: boolean; // Every call returns a new builder instead of modifying this one
+  scopes?: Record<string, ScopeFunction>; // Named scopes available through scope()
+}
@@ -41,3 +41,11 @@ export * from './pool-options.interface';
 export * from './pool.interface';
 export * from './pool-manager.interface';
 export * from './factory.interface';
+export * from './paginator.interface';
+export * from './where-condition.interface';
+export * from './window.interface';
+export * from './identifier.interface';
+export * from './sql-template.interface';
+export * from './json.interface';
+export * from './aggregate.interface';
+export * from './schema-builder.interface';
@@ -0,0 +1,16 @@
+// src/interfaces/json.interface.ts
+
+/**
+ * A column produced by `JSON_TABLE`.
+ *
+ * @example
+ * ```ts
+ * const sku: JsonTableColumn = { type: 'VARCHAR(20)', path: '$.sku' };
+ * ```
+ */
+export interface JsonTableColumn {
+  /** The SQL data type of the column, e.g. `INTEGER` or `VARCHAR(20)`. */
+  type: string;
+  /** The SQL/JSON path of the value, relative to the row path. */
+  path: string;
+}
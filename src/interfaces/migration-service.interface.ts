@@ -1,3 +1,8 @@
+import {
+  TemporalMetadata,
+  TemporalTableState,
+} from '../orm/interfaces/temporal.interfaces';
+
 export interface IMigrationService {
   generateMigrationSQL(
     tableName: string,
@@ -11,6 +16,14 @@ export interface IMigrationService {
     options?: Record<string, string>,
   ): string;
 
+  generateTemporalTableSQL(
+    tableName: string,
+    temporal: TemporalMetadata,
+    state?: Partial<TemporalTableState>,
+  ): string[];
+
+  generateTemporalStateSQL(): string;
+
   generateCreateViewSQL(
     viewName: string,
     viewSQL: string,
@@ -0,0 +1,20 @@
+// src/interfaces/paginator.interface.ts
+
+import { Db2Dialect, Db2PaginationStrategy } from '../enums';
+
+/**
+ * Options that control how the paginator renders row windows.
+ */
+export interface PaginationOptions {
+  dialect?: Db2Dialect; // Defaults to Db2Dialect.LUW
+  strategy?: Db2PaginationStrategy; // Overrides the dialect's default strategy
+}
+
+/**
+ * A window of rows to return from a SELECT statement.
+ */
+export interface PageWindow {
+  limit?: number; // Maximum number of rows to return
+  offset?: number; // Number of rows to skip
+  columns?: string[]; // Names of the result columns, listed by a ROW_NUMBER() wrapper
+}
@@ -1,74 +1,277 @@
 // src/interfaces/query-builder.interface.ts
 
-export interface IQueryBuilder {
+import { Db2IsolationLevel } from '../enums';
+import { BatchStatement, StreamOptions } from './client.interface';
+import { SqlFormatOptions } from './db2.interface';
+import { JsonTableColumn } from './json.interface';
+import { ConditionValue, WhereCondition } from './where-condition.interface';
+import { WindowAggregate, WindowSpecification } from './window.interface';
+
+/**
+ * The properties of an entity that map to columns. Methods and to-many
+ * relations are left out. For an untyped builder this is any string.
+ */
+export type EntityColumn<T> = {
+  [K in keyof T]-?: T[K] extends (...args: any[]) => any
+    ? never
+    : T[K] extends object[]
+      ? never
+      : K;
+}[keyof T] &
+  string;
+
+/**
+ * A column of the entity, optionally qualified with a table alias
+ * (e.g. `name` or `u.name`).
+ */
+export type ColumnReference<T> =
+  | EntityColumn<T>
+  | `${string}.${EntityColumn<T>}`;
+
+/**
+ * Strips the table alias from a column reference.
+ */
+export type UnqualifiedColumn<C extends string> =
+  C extends `${string}.${infer Column}` ? UnqualifiedColumn<Column> : C;
+
+/**
+ * The type of the entity property a column reference points to.
+ */
+export type ColumnType<T, C extends string> = T[UnqualifiedColumn<C> & keyof T];
+
+/**
+ * The row shape produced by selecting the given column references.
+ */
+export type SelectedColumns<T, C extends string> = {
+  [K in C as UnqualifiedColumn<K>]: T[UnqualifiedColumn<K> & keyof T];
+};
+
+/**
+ * The row shape produced by selecting columns under new names.
+ */
+export type AliasedColumns<T, A> = {
+  [K in keyof A as A[K] & string]: T[UnqualifiedColumn<K & string> & keyof T];
+};
+
+/**
+ * Adds the columns `P` to the result `R` of a builder over `T`. The first
+ * projection replaces the full entity row; later ones extend it. Untyped
+ * builders keep returning untyped rows.
+ */
+export type Projection<T, R, P> = 0 extends 1 & T
+  ? any
+  : [R] extends [T]
+    ? [T] extends [R]
+      ? P
+      : R & P
+    : R & P;
+
+/**
+ * A reusable piece of query logic, such as `published()` or `ownedBy(userId)`.
+ * A scope receives the builder and may either modify it or return the builder
+ * to continue with.
+ *
+ * @example
+ * ```ts
+ * const ownedBy: ScopeFunction<Post> = (qb, userId: number) => qb.where({ user_id: userId });
+ * ```
+ */
+export type ScopeFunction<T = any> = (
+  builder: IQueryBuilder<T, any>,
+  ...args: any[]
+) => IQueryBuilder<T, any> | void;
+
+/**
+ * A query builder over the entity `T`, producing rows of type `R`.
+ * Column arguments are checked against the properties of `T`; the
+ * defaults keep an untyped builder accepting any column name.
+ */
+export interface IQueryBuilder<T = any, R = T> {
   /**
    * Resets the query builder to its initial state.
    */
-  reset(): IQueryBuilder;
+  reset(): IQueryBuilder<T, T>;
 
   /**
-   * Specifies the columns to select in a query.
-   * @param columns The columns to select, can be a string, an array of strings, or a record of column-alias pairs.
+   * Creates an independent copy of the builder. Changes to the copy do not
+   * affect the original, and vice versa.
    */
-  select(columns: string | string[] | Record<string, string>): IQueryBuilder;
+  clone(): IQueryBuilder<T, R>;
+
+  /**
+   * Returns an immutable copy of the builder: every further call returns a
+   * new builder and leaves the one it was called on unchanged, so a base
+   * query can be shared safely.
+   */
+  immutable(): IQueryBuilder<T, R>;
+
+  /**
+   * Applies a named scope registered for the entity.
+   * @param name The name of the scope.
+   * @param args The arguments passed to the scope.
+   * @throws Error if no scope with that name is registered.
+   */
+  scope(name: string, ...args: any[]): IQueryBuilder<T, R>;
+
+  /**
+   * Applies a scope function to the builder.
+   * @param scope The scope function.
+   * @param args The arguments passed to the scope.
+   */
+  apply(scope: ScopeFunction<T>, ...args: any[]): IQueryBuilder<T, R>;
+
+  /**
+   * Specifies the columns to select in a query. The result rows are
+   * narrowed to the selected columns.
+   * @param columns The column, or columns, to select.
+   */
+  select<C extends ColumnReference<T>>(
+    columns: C | C[],
+  ): IQueryBuilder<T, Projection<T, R, SelectedColumns<T, C>>>;
+
+  /**
+   * Specifies the columns to select under an alias.
+   * @param columns A record of column-alias pairs.
+   */
+  select<A extends { [K in ColumnReference<T>]?: S }, S extends string>(
+    columns: A,
+  ): IQueryBuilder<T, Projection<T, R, AliasedColumns<T, A>>>;
 
   /**
    * Adds a DISTINCT clause to the query.
    */
-  distinct(): IQueryBuilder;
+  distinct(): IQueryBuilder<T, R>;
 
   /**
    * Specifies the schema to use in the query.
    * @param schemaName The name of the schema.
    */
-  useSchema(schemaName: string): IQueryBuilder;
+  useSchema(schemaName: string): IQueryBuilder<T, R>;
 
   /**
    * Specifies the table to query from.
    * @param table The table name.
    * @param alias An optional alias for the table.
    */
-  from(table: string, alias?: string): IQueryBuilder;
+  from(table: string, alias?: string): IQueryBuilder<T, R>;
 
   /**
-   * Adds a WHERE clause to the query.
-   * @param condition The condition to apply in the WHERE clause.
-   * @param params Optional parameters for the condition.
+   * Queries a system-period temporal table as it was at a point in time:
+   * `FOR SYSTEM_TIME AS OF ?`. Rows come from the table and its history table.
+   * @param timestamp The point in time. Dates are bound as timestamp strings in
+   * local time.
    */
-  where(condition: string, params?: any[]): IQueryBuilder;
+  asOf(timestamp: Date | string): IQueryBuilder<T, R>;
+
+  /**
+   * Queries all versions of the rows of a system-period temporal table that
+   * were current at some time in a range: `FOR SYSTEM_TIME BETWEEN ? AND ?`.
+   * Both ends of the range are inclusive. Dates are bound as timestamp strings
+   * in local time.
+   * @param start The start of the range.
+   * @param end The end of the range.
+   */
+  systemTimeBetween(
+    start: Date | string,
+    end: Date | string,
+  ): IQueryBuilder<T, R>;
+
+  /**
+   * Adds a WHERE clause to the query. Calling it again adds the condition with
+   * AND, after grouping the previous conditions in parentheses when they were
+   * combined with `or()`: `where(a).or(b).where(c)` is `(a OR b) AND c`.
+   * @param condition A raw SQL condition with `?` or `:name` markers, or a
+   * structured condition such as `{ age: { gte: 18 }, status: ['active', 'pending'] }`.
+   * @param params Parameters for a raw SQL condition: an array for `?` markers,
+   * or an object by name for `:name` markers.
+   */
+  where(
+    condition: string | WhereCondition<T>,
+    params?: any[] | Record<string, any>,
+  ): IQueryBuilder<T, R>;
 
   /**
    * Adds an AND condition to the existing WHERE clause.
-   * @param condition The condition to add.
-   * @param params Optional parameters for the condition.
+   * @param condition A raw SQL condition or a structured condition.
+   * @param params Parameters for a raw SQL condition.
    */
-  and(condition: string, params?: any[]): IQueryBuilder;
+  and(
+    condition: string | WhereCondition<T>,
+    params?: any[] | Record<string, any>,
+  ): IQueryBuilder<T, R>;
 
   /**
    * Adds an OR condition to the existing WHERE clause.
-   * @param condition The condition to add.
-   * @param params Optional parameters for the condition.
+   * @param condition A raw SQL condition or a structured condition.
+   * @param params Parameters for a raw SQL condition.
    */
-  or(condition: string, params?: any[]): IQueryBuilder;
+  or(
+    condition: string | WhereCondition<T>,
+    params?: any[] | Record<string, any>,
+  ): IQueryBuilder<T, R>;
+
+  /**
+   * Filters on a value inside a JSON column, compared through
+   * `JSON_VALUE(column, 'path' RETURNING type)`. Calling it after another
+   * condition adds it with AND.
+   * @param column The JSON column.
+   * @param path The SQL/JSON path of the value, e.g. `$.address.city`.
+   * @param condition A value, a list of values or operators such as `{ gte: 18 }`.
+   * @param returning The SQL type the value is compared as. Defaults to `VARCHAR(2000)`.
+   */
+  whereJson(
+    column: ColumnReference<T>,
+    path: string,
+    condition: ConditionValue,
+    returning?: string,
+  ): IQueryBuilder<T, R>;
+
+  /**
+   * Keeps the rows whose JSON column contains the path:
+   * `JSON_EXISTS(column, 'path')`. Calling it after another condition adds it with AND.
+   * @param column The JSON column.
+   * @param path The SQL/JSON path, e.g. `$.tags[0]`.
+   */
+  whereJsonExists(
+    column: ColumnReference<T>,
+    path: string,
+  ): IQueryBuilder<T, R>;
 
   /**
    * Adds an ORDER BY clause to the query.
-   * @param column The column to order by.
+   * @param column The column, or the alias of a selected expression, to order by.
    * @param direction The direction of the ordering, ASC or DESC.
    */
-  orderBy(column: string, direction?: 'ASC' | 'DESC'): IQueryBuilder;
+  orderBy(
+    column: ColumnReference<T> | (keyof R & string),
+    direction?: 'ASC' | 'DESC',
+  ): IQueryBuilder<T, R>;
+
+  /**
+   * Adds a raw ORDER BY expression, such as `CASE ... END` or a function call.
+   * The expression is emitted verbatim and must not contain user input.
+   * @param expression The sort key, including its direction.
+   */
+  orderByRaw(expression: string): IQueryBuilder<T, R>;
 
   /**
-   * Adds a LIMIT clause to the query.
+   * Limits the number of rows returned, rendered as `FETCH FIRST n ROWS ONLY`.
    * @param limit The number of rows to limit the results to.
    */
-  limit(limit: number): IQueryBuilder;
+  limit(limit: number): IQueryBuilder<T, R>;
 
   /**
-   * Adds an OFFSET clause to the query.
+   * Skips rows before returning results, rendered as `OFFSET n ROWS` or as a
+   * ROW_NUMBER() filter depending on the configured pagination strategy.
    * @param offset The number of rows to skip before starting to return rows.
    */
-  offset(offset: number): IQueryBuilder;
+  offset(offset: number): IQueryBuilder<T, R>;
+
+  /**
+   * Adds an `OPTIMIZE FOR n ROWS` hint to the query.
+   * @param rows The number of rows the application expects to fetch.
+   */
+  optimizeFor(rows: number): IQueryBuilder<T, R>;
 
   /**
    * Adds a JOIN clause to the query.
@@ -80,91 +283,458 @@ export interface IQueryBuilder {
     table: string,
     condition: string,
     type?: 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'NATURAL' | 'CROSS',
-  ): IQueryBuilder;
+  ): IQueryBuilder<T, R>;
 
   /**
    * Adds a GROUP BY clause to the query.
    * @param columns The columns to group by.
    */
-  groupBy(columns: string | string[]): IQueryBuilder;
+  groupBy(
+    columns: ColumnReference<T> | ColumnReference<T>[],
+  ): IQueryBuilder<T, R>;
 
   /**
    * Adds a HAVING clause to the query.
    * @param condition The condition to apply in the HAVING clause.
    * @param params Optional parameters for the condition.
    */
-  having(condition: string, params?: any[]): IQueryBuilder;
+  having(
+    condition: string,
+    params?: any[] | Record<string, any>,
+  ): IQueryBuilder<T, R>;
+
+  /**
+   * Selects `COUNT(column) AS alias`, added to the selected columns, so it
+   * combines with `groupBy`, `having` and other selected columns.
+   * @param column The column to count, `*` by default.
+   * @param alias An optional alias for the result, `count` by default.
+   */
+  count<A extends string = 'count'>(
+    column?: ColumnReference<T> | '*',
+    alias?: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>>;
 
   /**
-   * Adds a COUNT function to the query.
-   * @param column The column to count.
-   * @param alias An optional alias for the result.
+   * Selects `COUNT(DISTINCT column) AS alias`, added to the selected columns.
+   * @param column The column whose distinct values are counted.
+   * @param alias The name of the result column.
    */
-  count(column?: string, alias?: string): IQueryBuilder;
+  countDistinct<A extends string>(
+    column: ColumnReference<T>,
+    alias: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>>;
 
   /**
-   * Adds an INSERT INTO statement to the query.
+   * Selects `SUM(column) AS alias`, added to the selected columns.
+   * @param column The column to add up.
+   * @param alias The name of the result column.
+   */
+  sum<A extends string>(
+    column: ColumnReference<T>,
+    alias: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>>;
+
+  /**
+   * Selects `AVG(column) AS alias`, added to the selected columns. The
+   * average of an integer column is truncated to an integer by Db2.
+   * @param column The column to average.
+   * @param alias The name of the result column.
+   */
+  avg<A extends string>(
+    column: ColumnReference<T>,
+    alias: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>>;
+
+  /**
+   * Selects `MIN(column) AS alias`, added to the selected columns.
+   * @param column The column.
+   * @param alias The name of the result column.
+   */
+  min<C extends ColumnReference<T>, A extends string>(
+    column: C,
+    alias: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, ColumnType<T, C>>>>;
+
+  /**
+   * Selects `MAX(column) AS alias`, added to the selected columns.
+   * @param column The column.
+   * @param alias The name of the result column.
+   */
+  max<C extends ColumnReference<T>, A extends string>(
+    column: C,
+    alias: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, ColumnType<T, C>>>>;
+
+  /**
+   * Turns the builder into a multi-row INSERT statement.
+   * Every row is bound through parameter markers.
    * @param table The table to insert into.
    * @param columns The columns to insert values into.
-   * @param values The values to insert.
+   * @param values The rows to insert, each in the same order as `columns`.
    */
-  insertInto(table: string, columns: string[], values: any[][]): IQueryBuilder;
+  insertInto(
+    table: string,
+    columns: EntityColumn<T>[],
+    values: any[][],
+  ): IQueryBuilder<T, R>;
 
   /**
-   * Adds an UPDATE statement to the query.
+   * Turns the builder into an UPDATE statement.
+   * Further conditions can be chained with `where`, `and` and `or`.
    * @param table The table to update.
    * @param updates The columns and values to update.
-   * @param where The WHERE clause for the update.
-   * @param whereParams The parameters for the WHERE clause.
+   * @param where An optional WHERE condition for the update.
+   * @param whereParams The parameters for the WHERE condition.
    */
   update(
     table: string,
-    updates: Record<string, any>,
-    where: string,
-    whereParams: any[],
-  ): IQueryBuilder;
+    updates: { [K in EntityColumn<T>]?: T[K] },
+    where?: string,
+    whereParams?: any[] | Record<string, any>,
+  ): IQueryBuilder<T, R>;
 
   /**
-   * Adds a DELETE FROM statement to the query.
+   * Turns the builder into a DELETE statement.
+   * Conditions are added with `where`, `and` and `or`.
    * @param table The table to delete from.
    */
-  deleteFrom(table: string): IQueryBuilder;
+  deleteFrom(table: string): IQueryBuilder<T, R>;
 
   /**
-   * Adds an UPSERT (merge) statement to the query.
+   * Turns the builder into a DB2 `MERGE INTO ... USING (VALUES ...)` statement.
+   * Db2 cannot infer the type of a parameter marker in the `VALUES` list, so
+   * each value is cast to the type of its column, taken from the
+   * `columnTypes` option of the builder.
    * @param table The table to upsert into.
    * @param insertColumns The columns to insert.
-   * @param insertValues The values to insert.
-   * @param conflictTarget The target column(s) for conflict detection.
-   * @param updateColumns The columns to update if a conflict is detected.
-   * @param updateValues The values to update.
+   * @param insertValues The rows to insert, each in the same order as `insertColumns`.
+   * @param conflictTarget Comma-separated column(s) used to match existing rows.
+   * @param updateColumns The columns to update when a row already exists.
+   * @param updateValues Explicit values for `updateColumns`. When omitted, the
+   * incoming row's values are used.
+   * @throws Error if the type of an inserted column is not in `columnTypes`.
    */
   upsert(
     table: string,
-    insertColumns: string[],
+    insertColumns: EntityColumn<T>[],
     insertValues: any[][],
     conflictTarget: string,
-    updateColumns: string[],
-    updateValues: any[],
-  ): IQueryBuilder;
+    updateColumns: EntityColumn<T>[],
+    updateValues?: any[],
+  ): IQueryBuilder<T, R>;
+
+  /**
+   * Joins the result of another builder as a derived table. Its parameters
+   * are bound before those of the WHERE clause.
+   * @param subquery The builder producing the derived table.
+   * @param alias The correlation name of the derived table.
+   * @param condition The join condition. Without one, a CROSS JOIN is used.
+   * @param type The type of join (INNER, LEFT, RIGHT, FULL).
+   */
+  subquery(
+    subquery: IQueryBuilder<any, any>,
+    alias: string,
+    condition?: string,
+    type?: 'INNER' | 'LEFT' | 'RIGHT' | 'FULL',
+  ): IQueryBuilder<T, R>;
 
   /**
-   * Adds a subquery to the main query.
-   * @param subquery The subquery to add.
-   * @param alias The alias for the subquery.
+   * Adds a common table expression, rendered as `WITH name AS (...)`.
+   * Its parameters are bound before those of the main query.
+   * @param name The name the main query uses to refer to the expression.
+   * @param subquery The builder producing the expression.
+   * @param columns Optional column names for the expression.
    */
-  subquery(subquery: IQueryBuilder, alias: string): IQueryBuilder;
+  with(
+    name: string,
+    subquery: IQueryBuilder<any, any>,
+    columns?: string[],
+  ): IQueryBuilder<T, R>;
 
   /**
-   * Uses a database function in the query.
+   * Adds a recursive common table expression. Db2 has no `RECURSIVE`
+   * keyword: the expression is the anchor and the recursive member combined
+   * with UNION ALL, and the recursive member refers to the expression by name.
+   * @param name The name of the expression.
+   * @param columns The column names of the expression, required by Db2.
+   * @param anchor The builder producing the initial rows.
+   * @param recursive The builder joining the expression to produce further rows.
+   */
+  withRecursive(
+    name: string,
+    columns: string[],
+    anchor: IQueryBuilder<any, any>,
+    recursive: IQueryBuilder<any, any>,
+  ): IQueryBuilder<T, R>;
+
+  /**
+   * Uses a database function in the query. The result rows gain a column
+   * named after the alias. The function is emitted verbatim and must not
+   * contain user input.
    * @param func The function to use.
    * @param alias An optional alias for the result.
    */
-  useFunction(func: string, alias?: string): IQueryBuilder;
+  useFunction<A extends string = string>(
+    func: string,
+    alias?: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, any>>>;
+
+  /**
+   * Selects a scalar value from a JSON column:
+   * `JSON_VALUE(column, 'path' RETURNING type) AS alias`.
+   * @param column The JSON column.
+   * @param path The SQL/JSON path of the value, e.g. `$.address.city`.
+   * @param alias The name of the result column.
+   * @param returning The SQL type of the result. Defaults to `VARCHAR(2000)`.
+   */
+  jsonValue<A extends string>(
+    column: ColumnReference<T>,
+    path: string,
+    alias: A,
+    returning?: string,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, any>>>;
+
+  /**
+   * Selects an object or array from a JSON column as JSON text:
+   * `JSON_QUERY(column, 'path') AS alias`.
+   * @param column The JSON column.
+   * @param path The SQL/JSON path of the object or array, e.g. `$.tags`.
+   * @param alias The name of the result column.
+   */
+  jsonQuery<A extends string>(
+    column: ColumnReference<T>,
+    path: string,
+    alias: A,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, string>>>;
+
+  /**
+   * Joins the rows of a JSON array as a table:
+   * `CROSS JOIN JSON_TABLE(column, 'path' COLUMNS (...) ERROR ON ERROR) AS alias`.
+   * Select its columns as `alias.name`.
+   * @param column The JSON column.
+   * @param path The SQL/JSON path of the rows, e.g. `$.items[*]`.
+   * @param columns The columns of the table, by name.
+   * @param alias The correlation name of the table.
+   *
+   * @example
+   * ```ts
+   * new QueryBuilder('orders', client)
+   *   .select(['o.id', 'item.sku', 'item.qty'])
+   *   .from('orders', 'o')
+   *   .jsonTable('o.document', '$.items[*]', {
+   *     sku: { type: 'VARCHAR(20)', path: '$.sku' },
+   *     qty: { type: 'INTEGER', path: '$.qty' },
+   *   }, 'item');
+   * ```
+   */
+  jsonTable(
+    column: ColumnReference<T>,
+    path: string,
+    columns: Record<string, JsonTableColumn>,
+    alias: string,
+  ): IQueryBuilder<T, R>;
+
+  /**
+   * Selects `ROW_NUMBER() OVER (...)`.
+   * @param alias The name of the result column.
+   * @param over The window to number the rows in.
+   */
+  rowNumber<A extends string>(
+    alias: A,
+    over?: WindowSpecification<T>,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>>;
+
+  /**
+   * Selects `RANK() OVER (...)`. Rows with equal ordering values share a
+   * rank, leaving gaps after ties.
+   * @param alias The name of the result column.
+   * @param over The window to rank in. Db2 requires an ORDER BY.
+   */
+  rank<A extends string>(
+    alias: A,
+    over: WindowSpecification<T>,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>>;
+
+  /**
+   * Selects `DENSE_RANK() OVER (...)`, which ranks ties without gaps.
+   * @param alias The name of the result column.
+   * @param over The window to rank in. Db2 requires an ORDER BY.
+   */
+  denseRank<A extends string>(
+    alias: A,
+    over: WindowSpecification<T>,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, number>>>;
+
+  /**
+   * Selects `LAG(column, offset, default) OVER (...)`: the value of a
+   * preceding row in the window.
+   * @param column The column to read.
+   * @param alias The name of the result column.
+   * @param over The window. Db2 requires an ORDER BY.
+   * @param offset How many rows back to read, 1 by default.
+   * @param defaultValue The value when there is no such row, NULL by default.
+   */
+  lag<C extends ColumnReference<T>, A extends string>(
+    column: C,
+    alias: A,
+    over: WindowSpecification<T>,
+    offset?: number,
+    defaultValue?: string | number,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, ColumnType<T, C>>>>;
+
+  /**
+   * Selects `LEAD(column, offset, default) OVER (...)`: the value of a
+   * following row in the window.
+   * @param column The column to read.
+   * @param alias The name of the result column.
+   * @param over The window. Db2 requires an ORDER BY.
+   * @param offset How many rows ahead to read, 1 by default.
+   * @param defaultValue The value when there is no such row, NULL by default.
+   */
+  lead<C extends ColumnReference<T>, A extends string>(
+    column: C,
+    alias: A,
+    over: WindowSpecification<T>,
+    offset?: number,
+    defaultValue?: string | number,
+  ): IQueryBuilder<T, Projection<T, R, Record<A, ColumnType<T, C>>>>;
+
+  /**
+   * Selects an aggregate evaluated over a window, such as a running total:
+   * `SUM(amount) OVER (PARTITION BY ... ORDER BY ... ROWS BETWEEN ...)`.
+   * @param func The aggregate function.
+   * @param column The column to aggregate, or `*` for COUNT.
+   * @param alias The name of the result column.
+   * @param over The window. Without one, the aggregate covers all rows.
+   */
+  aggregateOver<
+    F extends WindowAggregate,
+    C extends ColumnReference<T> | '*',
+    A extends string,
+  >(
+    func: F,
+    column: C,
+    alias: A,
+    over?: WindowSpecification<T>,
+  ): IQueryBuilder<
+    T,
+    Projection<
+      T,
+      R,
+      Record<A, F extends 'MIN' | 'MAX' ? ColumnType<T, C> : number>
+    >
+  >;
+
+  /**
+   * Combines the rows of this query with those of another, removing
+   * duplicates. ORDER BY, `limit` and `offset` on this builder apply to the
+   * combined result.
+   * @param other A builder selecting the same number of compatible columns.
+   */
+  union(other: IQueryBuilder<any, any>): IQueryBuilder<T, R>;
+
+  /**
+   * Combines the rows of this query with those of another, keeping duplicates.
+   * @param other A builder selecting the same number of compatible columns.
+   */
+  unionAll(other: IQueryBuilder<any, any>): IQueryBuilder<T, R>;
+
+  /**
+   * Keeps the rows that are also returned by another query.
+   * @param other A builder selecting the same number of compatible columns.
+   */
+  intersect(other: IQueryBuilder<any, any>): IQueryBuilder<T, R>;
+
+  /**
+   * Removes the rows that are returned by another query.
+   * @param other A builder selecting the same number of compatible columns.
+   */
+  except(other: IQueryBuilder<any, any>): IQueryBuilder<T, R>;
+
+  /**
+   * Adds `FOR UPDATE [OF columns]`, so the selected rows are locked for update
+   * until the transaction ends. Not allowed with DISTINCT, GROUP BY, COUNT,
+   * set operations or an offset paginated with ROW_NUMBER(), which make the
+   * result read-only.
+   * @param columns The columns that will be updated. All columns when omitted.
+   */
+  forUpdate(columns?: ColumnReference<T>[]): IQueryBuilder<T, R>;
+
+  /**
+   * Adds `FOR READ ONLY`, which tells Db2 the cursor is not used for
+   * positioned updates or deletes.
+   */
+  forReadOnly(): IQueryBuilder<T, R>;
+
+  /**
+   * Adds `SKIP LOCKED DATA`: rows locked by other transactions are skipped
+   * instead of waited for. Applies to the CS and RS isolation levels. Not
+   * allowed with an offset paginated with ROW_NUMBER().
+   */
+  skipLocked(): IQueryBuilder<T, R>;
+
+  /**
+   * Runs the statement with the given isolation level, rendered as
+   * `WITH UR`, `WITH CS`, `WITH RS` or `WITH RR`, without changing the
+   * connection's isolation level. Supported for SELECT, UPDATE and DELETE.
+   * @param level The isolation level.
+   */
+  isolation(level: Db2IsolationLevel): IQueryBuilder<T, R>;
 
   /**
    * Builds the final SQL query and returns the query string along with the associated parameters.
    * @returns An object containing the query string and parameters.
    */
-  build(): { query: string; params: Record<string, any> };
+  build(): { query: string; params: any[] };
+
+  /**
+   * Renders the query for logs and tests. The output is not meant to be
+   * executed; use `build()` to get the statement and its parameters.
+   * @param options `pretty` starts each clause on a new line; `inlineParams`
+   * replaces the `?` markers with the parameter values as escaped literals.
+   * @returns The rendered statement.
+   *
+   * @example
+   * ```ts
+   * qb.select(['id']).where({ status: 'open' }).toSQL({ pretty: true, inlineParams: true });
+   * // SELECT id
+   * // FROM orders
+   * // WHERE status = 'open';
+   * ```
+   */
+  toSQL(options?: SqlFormatOptions): string;
+
+  /**
+   * Builds and executes the query.
+   * @returns The result rows, typed as the entity or as the selected projection.
+   */
+  execute(): Promise<R[]>;
+
+  /**
+   * Builds the query and streams its rows instead of buffering them.
+   * The connection is released when iteration ends or is stopped early.
+   * @param options The number of rows to fetch per batch and the timeout.
+   * @returns An async iterator over the rows.
+   */
+  stream(options?: StreamOptions): AsyncIterable<R>;
+
+  /**
+   * Executes this statement, followed by other INSERT, UPDATE, DELETE or
+   * MERGE statements, as one atomic compound statement (`BEGIN ATOMIC ...
+   * END`) through the builder's client, like `client.batch`.
+   * @param statements The statements to run after this one: raw SQL with its
+   * parameters, `sql` tag fragments or query builders.
+   * @param timeout An optional timeout for the whole batch.
+   * @throws Error if a statement is not an INSERT, UPDATE, DELETE or MERGE.
+   *
+   * @example
+   * ```ts
+   * await new QueryBuilder('orders', client)
+   *   .insertInto('orders', ['id', 'customer_id'], [[orderId, customerId]])
+   *   .batch([
+   *     new QueryBuilder('carts', client).deleteFrom('carts').where({ id: cartId }),
+   *   ]);
+   * ```
+   */
+  batch(statements?: BatchStatement[], timeout?: number): Promise<void>;
 }
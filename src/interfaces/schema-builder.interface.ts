@@ -0,0 +1,326 @@
+// src/interfaces/schema-builder.interface.ts
+
+/**
+ * The action taken on dependent rows when a referenced row is deleted or
+ * updated. Db2 only accepts `RESTRICT` and `NO ACTION` for updates.
+ */
+export type ReferentialAction =
+  | 'CASCADE'
+  | 'SET NULL'
+  | 'RESTRICT'
+  | 'NO ACTION';
+
+/**
+ * Options of a foreign key.
+ */
+export interface ReferenceOptions {
+  name?: string; // Constraint name. Db2 generates one by default
+  onDelete?: ReferentialAction;
+  onUpdate?: 'RESTRICT' | 'NO ACTION';
+}
+
+/**
+ * Options of an identity column.
+ */
+export interface IdentityOptions {
+  always?: boolean; // GENERATED ALWAYS instead of GENERATED BY DEFAULT
+  start?: number;
+  increment?: number;
+}
+
+/**
+ * Options of an index.
+ */
+export interface IndexOptions {
+  unique?: boolean;
+  include?: string[]; // Extra columns stored in a unique index
+}
+
+/**
+ * A column being defined in `createTable` or added in `alterTable`.
+ * Modifiers return the column, so they can be chained.
+ */
+export interface IColumnBuilder {
+  /**
+   * Adds `NOT NULL`.
+   */
+  notNull(): IColumnBuilder;
+
+  /**
+   * Allows NULL values, which is the default.
+   */
+  nullable(): IColumnBuilder;
+
+  /**
+   * Sets a literal default value, such as `0`, `'draft'` or `false`.
+   * @param value The default value.
+   */
+  default(value: string | number | boolean | Date | null): IColumnBuilder;
+
+  /**
+   * Sets a default expression, such as `CURRENT TIMESTAMP`. The expression is
+   * emitted verbatim and must not contain user input.
+   * @param expression The default expression.
+   */
+  defaultRaw(expression: string): IColumnBuilder;
+
+  /**
+   * Makes the column an identity column:
+   * `GENERATED BY DEFAULT AS IDENTITY (START WITH 1 INCREMENT BY 1)`.
+   * Identity columns are NOT NULL.
+   * @param options Whether values are always generated, the start and the increment.
+   */
+  identity(options?: IdentityOptions): IColumnBuilder;
+
+  /**
+   * Adds the column to the primary key of the table. Primary key columns are NOT NULL.
+   */
+  primary(): IColumnBuilder;
+
+  /**
+   * Adds a UNIQUE constraint. Db2 requires the column to be NOT NULL, so it is.
+   */
+  unique(): IColumnBuilder;
+
+  /**
+   * Adds a foreign key referencing another table.
+   * @param table The referenced table.
+   * @param column The referenced column, `id` by default.
+   * @param options The constraint name and referential actions.
+   */
+  references(
+    table: string,
+    column?: string,
+    options?: ReferenceOptions,
+  ): IColumnBuilder;
+
+  /**
+   * Adds a CHECK constraint. The condition is emitted verbatim and must not
+   * contain user input.
+   * @param condition The condition, e.g. `price >= 0`.
+   */
+  check(condition: string): IColumnBuilder;
+
+  /**
+   * Adds a `COMMENT ON COLUMN` statement.
+   * @param text The comment.
+   */
+  comment(text: string): IColumnBuilder;
+}
+
+/**
+ * The table passed to the callback of `createTable` and `alterTable`.
+ * Column methods add a column and return it for further modifiers.
+ */
+export interface ITableBuilder {
+  /**
+   * Adds a column of any Db2 data type, e.g. `VARCHAR(20) FOR BIT DATA`.
+   * @param name The column name.
+   * @param type The data type.
+   */
+  column(name: string, type: string): IColumnBuilder;
+
+  smallint(name: string): IColumnBuilder;
+  integer(name: string): IColumnBuilder;
+  bigint(name: string): IColumnBuilder;
+
+  /**
+   * Adds a `DECIMAL(precision, scale)` column.
+   */
+  decimal(name: string, precision?: number, scale?: number): IColumnBuilder;
+
+  /**
+   * Adds a `DECFLOAT(16)` or `DECFLOAT(34)` column.
+   */
+  decfloat(name: string, digits?: 16 | 34): IColumnBuilder;
+  real(name: string): IColumnBuilder;
+  double(name: string): IColumnBuilder;
+
+  /**
+   * Adds a `VARCHAR(length)` column, 255 long by default.
+   */
+  varchar(name: string, length?: number): IColumnBuilder;
+
+  /**
+   * Adds a fixed-length `CHAR(length)` column.
+   */
+  char(name: string, length?: number): IColumnBuilder;
+
+  /**
+   * Adds a `CLOB(size)` column, e.g. `clob('body', '2M')`.
+   */
+  clob(name: string, size?: string): IColumnBuilder;
+
+  /**
+   * Adds a `BLOB(size)` column.
+   */
+  blob(name: string, size?: string): IColumnBuilder;
+  boolean(name: string): IColumnBuilder;
+  date(name: string): IColumnBuilder;
+  time(name: string): IColumnBuilder;
+
+  /**
+   * Adds a `TIMESTAMP(precision)` column, with microseconds by default.
+   */
+  timestamp(name: string, precision?: number): IColumnBuilder;
+
+  /**
+   * Adds a column holding JSON text, stored as `CLOB(1M)` like the `json`
+   * column type of entities.
+   */
+  json(name: string): IColumnBuilder;
+  xml(name: string): IColumnBuilder;
+
+  /**
+   * Adds a primary key over one or more columns. Key columns declared in the
+   * same callback are made NOT NULL, as Db2 requires.
+   * @param columns The key columns.
+   * @param name An optional constraint name.
+   */
+  primary(columns: string[], name?: string): ITableBuilder;
+
+  /**
+   * Adds a UNIQUE constraint over one or more columns. Columns declared in
+   * the same callback are made NOT NULL, as Db2 requires.
+   * @param columns The columns.
+   * @param name An optional constraint name.
+   */
+  unique(columns: string[], name?: string): ITableBuilder;
+
+  /**
+   * Adds a foreign key over one or more columns.
+   * @param columns The referencing columns.
+   * @param table The referenced table.
+   * @param referencedColumns The referenced columns, in the same order.
+   * @param options The constraint name and referential actions.
+   */
+  foreign(
+    columns: string[],
+    table: string,
+    referencedColumns: string[],
+    options?: ReferenceOptions,
+  ): ITableBuilder;
+
+  /**
+   * Adds a named CHECK constraint. The condition is emitted verbatim and
+   * must not contain user input.
+   */
+  check(name: string, condition: string): ITableBuilder;
+
+  /**
+   * Adds a `CREATE INDEX` statement for the table.
+   * @param columns The indexed columns.
+   * @param name The index name, `<table>_<columns>_idx` by default.
+   * @param options Uniqueness and included columns.
+   */
+  index(
+    columns: string[],
+    name?: string,
+    options?: IndexOptions,
+  ): ITableBuilder;
+
+  /**
+   * Adds a `COMMENT ON TABLE` statement.
+   */
+  comment(text: string): ITableBuilder;
+
+  /**
+   * Drops a column. Db2 puts the table in reorg-pending state, so a
+   * `REORG TABLE` follows. Only in `alterTable`.
+   */
+  dropColumn(name: string): ITableBuilder;
+
+  /**
+   * Renames a column. Only in `alterTable`.
+   */
+  renameColumn(from: string, to: string): ITableBuilder;
+
+  /**
+   * Drops a constraint by name. Only in `alterTable`.
+   */
+  dropConstraint(name: string): ITableBuilder;
+}
+
+/**
+ * Builds DDL statements. Each call adds one or more statements, which
+ * `execute()` runs in order.
+ */
+export interface ISchemaBuilder {
+  /**
+   * Adds a `CREATE TABLE` statement, followed by the indexes and comments
+   * declared in the callback.
+   * @param name The table name, optionally qualified with its schema.
+   * @param define Declares the columns and constraints.
+   * @param options `ifNotExists` adds `IF NOT EXISTS`.
+   */
+  createTable(
+    name: string,
+    define: (table: ITableBuilder) => void,
+    options?: { ifNotExists?: boolean },
+  ): ISchemaBuilder;
+
+  /**
+   * Adds `ALTER TABLE` statements for the columns and constraints added,
+   * dropped or renamed in the callback.
+   * @param name The table name.
+   * @param define Declares the changes.
+   */
+  alterTable(
+    name: string,
+    define: (table: ITableBuilder) => void,
+  ): ISchemaBuilder;
+
+  /**
+   * Adds a `DROP TABLE` statement.
+   * @param name The table name.
+   * @param options `ifExists` adds `IF EXISTS`.
+   */
+  dropTable(name: string, options?: { ifExists?: boolean }): ISchemaBuilder;
+
+  /**
+   * Adds a `RENAME TABLE` statement.
+   */
+  renameTable(from: string, to: string): ISchemaBuilder;
+
+  /**
+   * Adds an `ALTER TABLE ... RENAME COLUMN` statement.
+   */
+  renameColumn(table: string, from: string, to: string): ISchemaBuilder;
+
+  /**
+   * Adds a `CREATE INDEX` statement.
+   * @param name The index name.
+   * @param table The table name.
+   * @param columns The indexed columns.
+   * @param options Uniqueness and included columns.
+   */
+  createIndex(
+    name: string,
+    table: string,
+    columns: string[],
+    options?: IndexOptions,
+  ): ISchemaBuilder;
+
+  /**
+   * Adds a `DROP INDEX` statement.
+   */
+  dropIndex(name: string): ISchemaBuilder;
+
+  /**
+   * Returns the statements, without terminators.
+   */
+  build(): string[];
+
+  /**
+   * Renders the statements as a script, each terminated by `;`, for logs
+   * and migration files.
+   */
+  toSQL(): string;
+
+  /**
+   * Runs the statements in order. Each statement is committed on its own, so
+   * a failure leaves the earlier statements applied.
+   * @throws Error if the builder was created without a client.
+   */
+  execute(): Promise<void>;
+}
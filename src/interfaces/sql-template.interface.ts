@@ -0,0 +1,46 @@
+// src/interfaces/sql-template.interface.ts
+
+import { StreamOptions } from './client.interface';
+
+/**
+ * A piece of parameterized SQL. Fragments can be interpolated into other
+ * templates; their text and parameters are spliced in place.
+ */
+export interface ISqlFragment {
+  readonly sql: string;
+  readonly params: any[];
+}
+
+/**
+ * A parameterized statement bound to a client. The statement is only executed
+ * by `execute` or `stream`, each call running it again.
+ */
+export interface ISqlStatement<T = any> extends ISqlFragment {
+  execute(): Promise<T[]>;
+  stream(options?: StreamOptions): AsyncIterable<T>;
+}
+
+/**
+ * The `sql` template tag. Interpolated values become `?` markers, arrays
+ * expand to a list of markers, and fragments are spliced in place.
+ */
+export interface SqlTag {
+  <T = any>(strings: TemplateStringsArray, ...values: any[]): ISqlStatement<T>;
+
+  /**
+   * Joins values and fragments with a separator, e.g. for a column list or a
+   * set of conditions.
+   */
+  join(values: any[], separator?: string | ISqlFragment): ISqlFragment;
+
+  /**
+   * A validated, quoted table or column name. Qualified names (`schema.table`)
+   * are accepted.
+   */
+  identifier(name: string): ISqlFragment;
+
+  /**
+   * SQL text that is inserted as written. Never pass untrusted input.
+   */
+  raw(sql: string): ISqlFragment;
+}
@@ -0,0 +1,59 @@
+// src/interfaces/where-condition.interface.ts
+
+/**
+ * Operators that can be applied to a single column in a structured condition.
+ * Several operators on the same column are combined with AND.
+ *
+ * @example
+ * ```ts
+ * const age: ConditionOperators<number> = { gte: 18, lt: 65 };
+ * ```
+ */
+export interface ConditionOperators<V = any> {
+  eq?: V | null; // column = ?, or IS NULL for null
+  ne?: V | null; // column <> ?, or IS NOT NULL for null
+  gt?: V; // column > ?
+  gte?: V; // column >= ?
+  lt?: V; // column < ?
+  lte?: V; // column <= ?
+  between?: [V, V]; // column BETWEEN ? AND ?
+  in?: V[]; // column IN (?, ?, ...)
+  like?: string; // column LIKE ?
+  isNull?: boolean; // column IS NULL, or IS NOT NULL for false
+}
+
+/**
+ * The condition for a single column: either a value compared for equality
+ * (an array is treated as IN, null as IS NULL) or an operator object. A plain
+ * object without operator keys, such as `{ theme: 'dark' }`, is a value.
+ */
+export type ConditionValue<V = any> = V | V[] | null | ConditionOperators<V>;
+
+/**
+ * A structured WHERE condition. Column conditions are combined with AND;
+ * `$and` and `$or` nest groups of conditions.
+ *
+ * @example
+ * ```ts
+ * const condition: WhereCondition<Post> = {
+ *   published: true,
+ *   created_at: { gte: lastWeek },
+ *   $or: [{ user_id: { in: [1, 2] } }, { title: { like: 'DB2%' } }],
+ * };
+ * ```
+ */
+export type WhereCondition<T = any> = {
+  [K in keyof T]?: ConditionValue<T[K]>;
+} & {
+  $and?: WhereCondition<T>[];
+  $or?: WhereCondition<T>[];
+};
+
+/**
+ * A compiled condition: a SQL fragment with `?` parameter markers and the
+ * values to bind to them, in order.
+ */
+export interface CompiledCondition {
+  sql: string;
+  params: any[];
+}
@@ -0,0 +1,50 @@
+// src/interfaces/window.interface.ts
+
+import { ColumnReference } from './query-builder.interface';
+
+/**
+ * Aggregate functions that can be evaluated over a window.
+ */
+export type WindowAggregate = 'SUM' | 'AVG' | 'MIN' | 'MAX' | 'COUNT';
+
+/**
+ * A bound of a window frame. Numeric bounds count rows (or values, for
+ * RANGE frames) relative to the current row.
+ */
+export type WindowFrameBound =
+  | 'UNBOUNDED PRECEDING'
+  | 'CURRENT ROW'
+  | 'UNBOUNDED FOLLOWING'
+  | { preceding: number }
+  | { following: number };
+
+/**
+ * The rows of the partition an aggregate is evaluated over, rendered as
+ * `ROWS BETWEEN start AND end`. Without an end, the frame ends at the current row.
+ */
+export interface WindowFrame {
+  unit?: 'ROWS' | 'RANGE';
+  start: WindowFrameBound;
+  end?: WindowFrameBound;
+}
+
+/**
+ * The OVER clause of an OLAP function.
+ *
+ * @example
+ * ```ts
+ * const spec: WindowSpecification<Post> = {
+ *   partitionBy: 'user_id',
+ *   orderBy: { created_at: 'DESC' },
+ *   frame: { start: { preceding: 6 }, end: 'CURRENT ROW' },
+ * };
+ * ```
+ */
+export interface WindowSpecification<T = any> {
+  partitionBy?: ColumnReference<T> | ColumnReference<T>[];
+  orderBy?:
+    | ColumnReference<T>
+    | ColumnReference<T>[]
+    | { [K in ColumnReference<T>]?: 'ASC' | 'DESC' };
+  frame?: WindowFrame;
+}
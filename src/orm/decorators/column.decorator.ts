@@ -52,6 +52,7 @@ class ColumnDecorator extends BasePropertyDecorator<Partial<ColumnMetadata>> {
         defaultToNow: options.defaultToNow,
         defaultToNowOnUpdate: options.defaultToNowOnUpdate,
         defaultToUUID: options.defaultToUUID,
+        transformer: options.transformer,
       }),
       // Unique Check Function (optional)
       (existing: ColumnMetadata, newEntry: ColumnMetadata) =>
@@ -65,6 +65,8 @@ class EntityDecorator {
           defaultValues: options.tableMetadata?.defaultValues || [],
           constraints: options.tableMetadata?.constraints || [],
           compositeKeys: options.tableMetadata?.compositeKeys || [],
+          scopes: options.tableMetadata?.scopes || [],
+          temporal: options.tableMetadata?.temporal || [],
         },
       };
     } else if (options.entityType === 'view') {
@@ -98,6 +100,8 @@ class EntityDecorator {
         defaultValues: [],
         constraints: [],
         compositeKeys: [],
+        scopes: [],
+        temporal: [],
       },
     };
   }
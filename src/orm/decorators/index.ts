@@ -14,5 +14,7 @@ export * from './many-to-one.decorator';
 export * from './one-to-many.decorator';
 export * from './one-to-one.decorator';
 export * from './primary-key.decorator';
+export * from './query-scope.decorator';
 export * from './table.decorator';
+export * from './temporal.decorator';
 export * from './view.decorator';
@@ -0,0 +1,72 @@
+// src/decorators/query-scope.decorator.ts
+
+import { BaseClassDecorator } from './base-class.decorator';
+import { ClassConstructor } from '../types';
+import { ScopeMetadata } from '../interfaces';
+import { ScopeFunction } from '../../interfaces';
+
+/**
+ * QueryScopeDecorator class that extends BaseClassDecorator to handle scope metadata.
+ */
+class QueryScopeDecorator extends BaseClassDecorator<ScopeMetadata> {
+  constructor() {
+    super(
+      'scopes', // MetadataType
+      // Validation function for the scope options
+      (options: ScopeMetadata) => {
+        if (!options.name || typeof options.name !== 'string') {
+          throw new Error('QueryScope decorator requires a valid "name".');
+        }
+        if (typeof options.apply !== 'function') {
+          throw new Error(
+            `QueryScope decorator requires a function for scope "${options.name}".`,
+          );
+        }
+      },
+      // Metadata Creator
+      (options: ScopeMetadata) => ({
+        name: options.name,
+        apply: options.apply,
+      }),
+      // Unique Check Function (optional)
+      (existing: ScopeMetadata, newEntry: ScopeMetadata) =>
+        existing.name === newEntry.name,
+    );
+  }
+}
+
+// Instance of QueryScopeDecorator
+const queryScopeDecoratorInstance = new QueryScopeDecorator();
+
+/**
+ * @QueryScope decorator to register a named, reusable scope for an entity.
+ * The scope can be applied to any query builder created by the entity's model.
+ * @param name - The name the scope is applied by.
+ * @param apply - The function that applies the scope to a query builder.
+ * @returns ClassDecorator
+ *
+ * @example
+ * ```ts
+ * @QueryScope('published', (qb) => qb.where({ status: 'published' }))
+ * @QueryScope('ownedBy', (qb, userId: number) => qb.where({ user_id: userId }))
+ * @Entity({ name: 'posts', entityType: 'table' })
+ * class Post { ... }
+ *
+ * const posts = await postModel
+ *   .createQueryBuilder()
+ *   .scope('published')
+ *   .scope('ownedBy', 7)
+ *   .execute();
+ * ```
+ */
+export function QueryScope<T = any>(
+  name: string,
+  apply: ScopeFunction<T>,
+): ClassDecorator {
+  return (target: Function) => {
+    const classConstructor = target as ClassConstructor<any>;
+
+    // Use the decorator instance to handle metadata creation and storage
+    queryScopeDecoratorInstance.decorate({ name, apply })(classConstructor);
+  };
+}
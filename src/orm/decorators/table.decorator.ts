@@ -42,6 +42,8 @@ class TableDecorator extends BaseClassDecorator<TableOptions> {
           defaultValues: [],
           constraints: [],
           compositeKeys: [],
+          scopes: [],
+          temporal: [],
         },
       }),
       // Unique Check Function (optional)
@@ -0,0 +1,69 @@
+// src/decorators/temporal.decorator.ts
+
+import { BaseClassDecorator } from './base-class.decorator';
+import { ClassConstructor } from '../types';
+import { TemporalMetadata } from '../interfaces';
+
+type TemporalOptions = Pick<TemporalMetadata, 'historyTable'> &
+  Partial<TemporalMetadata>;
+
+/**
+ * TemporalDecorator class that extends BaseClassDecorator to handle system-period metadata.
+ */
+class TemporalDecorator extends BaseClassDecorator<TemporalOptions> {
+  constructor() {
+    super(
+      'temporal', // MetadataType
+      // Validation function for the temporal options
+      (options: TemporalOptions) => {
+        if (!options.historyTable || typeof options.historyTable !== 'string') {
+          throw new Error(
+            'Temporal decorator requires a valid "historyTable".',
+          );
+        }
+      },
+      // Metadata Creator
+      (options: TemporalOptions): TemporalMetadata => ({
+        historyTable: options.historyTable,
+        rowBeginColumn: options.rowBeginColumn ?? 'sys_start',
+        rowEndColumn: options.rowEndColumn ?? 'sys_end',
+        transactionStartColumn: options.transactionStartColumn ?? 'trans_start',
+      }),
+      // Unique Check Function (optional): a table has a single system period
+      () => true,
+    );
+  }
+}
+
+// Instance of TemporalDecorator
+const temporalDecoratorInstance = new TemporalDecorator();
+
+/**
+ * @Temporal decorator to make an entity's table a system-period temporal table.
+ * The migration adds the period columns (implicitly hidden, so `SELECT *` and
+ * existing inserts are unaffected), the `SYSTEM_TIME` period, the history
+ * table and versioning. Query past states with `asOf()` and `systemTimeBetween()`.
+ * @param options - The history table name and, optionally, the period column names.
+ * @returns ClassDecorator
+ *
+ * @example
+ * ```ts
+ * @Temporal({ historyTable: 'orders_history' })
+ * @Entity({ name: 'orders', entityType: 'table' })
+ * class Order { ... }
+ *
+ * const lastQuarter = await orderModel
+ *   .createQueryBuilder()
+ *   .asOf('2024-03-31-23.59.59')
+ *   .where({ id: 42 })
+ *   .execute();
+ * ```
+ */
+export function Temporal(options: TemporalOptions): ClassDecorator {
+  return (target: Function) => {
+    const classConstructor = target as ClassConstructor<any>;
+
+    // Use the decorator instance to handle metadata creation and storage
+    temporalDecoratorInstance.decorate(options)(classConstructor);
+  };
+}
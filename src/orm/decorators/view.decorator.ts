@@ -3,11 +3,12 @@
 import { BaseClassDecorator } from './base-class.decorator';
 import { ClassConstructor } from '../types';
 import { EntityMetadata } from '../interfaces';
+import { IQueryBuilder } from '../../interfaces';
 
 interface ViewOptions {
   schema: string;
   viewName: string;
-  query: string; // The SQL query defining the view
+  query: string | IQueryBuilder<any, any>; // The SQL query defining the view
 }
 
 /**
@@ -25,7 +26,11 @@ class ViewDecorator extends BaseClassDecorator<ViewOptions> {
         if (!options.viewName || typeof options.viewName !== 'string') {
           throw new Error('View decorator requires a valid "viewName".');
         }
-        if (!options.query || typeof options.query !== 'string') {
+        if (
+          !options.query ||
+          (typeof options.query !== 'string' &&
+            typeof options.query.build !== 'function')
+        ) {
           throw new Error(
             'View decorator requires a valid "query" defining the view.',
           );
@@ -38,7 +43,7 @@ class ViewDecorator extends BaseClassDecorator<ViewOptions> {
           viewName: options.viewName,
           schemaName: options.schema,
           columns: [], // Initialize an empty array for columns
-          underlyingQuery: options.query,
+          underlyingQuery: viewQuery(options.query),
         },
       }),
       // Unique Check Function (optional)
@@ -49,6 +54,23 @@ class ViewDecorator extends BaseClassDecorator<ViewOptions> {
   }
 }
 
+/**
+ * Resolves the query defining a view. A builder is built once; views cannot
+ * bind parameters, so builders that produce parameter markers are rejected.
+ */
+function viewQuery(query: string | IQueryBuilder<any, any>): string {
+  if (typeof query === 'string') {
+    return query;
+  }
+  const { query: sql, params } = query.build();
+  if (params.length > 0) {
+    throw new Error(
+      'View decorator requires a query without parameters; use literal values in raw conditions instead.',
+    );
+  }
+  return sql.trim().replace(/;$/, '');
+}
+
 // Instance of ViewDecorator
 const viewDecoratorInstance = new ViewDecorator();
 
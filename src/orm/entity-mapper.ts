@@ -0,0 +1,150 @@
+// src/orm/entity-mapper.ts
+
+import { ColumnMetadata } from './interfaces/column.interfaces';
+import { ClassConstructor } from './types';
+import { ValueConverter } from './value-converter';
+
+/** The SQL type of `json` columns, as the migration creates them. */
+const JSON_COLUMN_TYPE = 'CLOB(1M)';
+
+/**
+ * Translates between the properties of an entity and the columns of its
+ * table, using the `name` of the column metadata. Values are converted by
+ * their column type and transformer through a {@link ValueConverter}.
+ *
+ * @example
+ * ```ts
+ * // @Column({ type: 'timestamp', name: 'created_at' }) createdAt: Date;
+ * const mapper = new EntityMapper(columns, Post);
+ * mapper.columnName('createdAt'); // 'created_at'
+ * mapper.hydrate({ ID: 1, CREATED_AT: date }); // Post { id: 1, createdAt: date }
+ * ```
+ */
+export class EntityMapper<T> {
+  private readonly byProperty = new Map<string, ColumnMetadata>();
+  private readonly byResultKey = new Map<string, ColumnMetadata>();
+  private readonly converter = new ValueConverter();
+
+  /**
+   * @param columns The column metadata of the entity.
+   * @param entity The entity class. Rows are hydrated into instances of it,
+   * or into plain objects without one.
+   */
+  constructor(
+    columns: ColumnMetadata[],
+    private readonly entity?: ClassConstructor<T>,
+  ) {
+    for (const column of columns) {
+      this.byProperty.set(column.propertyKey, column);
+      this.byResultKey.set(
+        this.resultKey(column.name ?? column.propertyKey),
+        column,
+      );
+    }
+  }
+
+  /**
+   * Returns the column name of a property. Names that are not properties of
+   * the entity, such as column names, are returned unchanged.
+   * @param property The property name.
+   */
+  columnName(property: string): string {
+    const column = this.byProperty.get(property);
+    return column?.name ?? property;
+  }
+
+  /**
+   * Returns the SQL data type of the column of a property, such as
+   * `VARCHAR(40)` or `DECIMAL(10, 2)`: the declared type, with its length or
+   * precision and scale, and `CLOB(1M)` for JSON. Undefined for names that
+   * are not properties of the entity.
+   * @param property The property name.
+   */
+  sqlType(property: string): string | undefined {
+    const column = this.byProperty.get(property);
+    if (!column?.type) {
+      return undefined;
+    }
+    const type = column.type.trim().toUpperCase();
+    if (type === 'JSON') {
+      return JSON_COLUMN_TYPE;
+    }
+    if (type.includes('(')) {
+      return type;
+    }
+    if (column.length !== undefined) {
+      return `${type}(${column.length})`;
+    }
+    if (column.precision !== undefined) {
+      return `${type}(${column.precision}, ${column.scale ?? 0})`;
+    }
+    return type;
+  }
+
+  /**
+   * Converts a property value to the value stored in its column. Values of
+   * names that are not properties of the entity are returned unchanged.
+   * @param property The property name.
+   * @param value The property value.
+   */
+  toColumnValue(property: string, value: any): any {
+    const column = this.byProperty.get(property);
+    return column ? this.converter.toDatabase(column, value) : value;
+  }
+
+  /**
+   * Converts a value read from the column of a property to the property
+   * value, such as the MIN or MAX of the column.
+   * @param property The property name.
+   * @param value The value returned by the driver.
+   */
+  fromColumnValue(property: string, value: any): any {
+    const column = this.byProperty.get(property);
+    return column ? this.converter.fromDatabase(column, value) : value;
+  }
+
+  /**
+   * Converts a result row into an entity instance. Columns are matched by
+   * name without regard to case, since Db2 reports unquoted names in upper
+   * case, and assigned to their properties. Other values, such as computed
+   * columns, keep their result key.
+   * @param row The row returned by the driver.
+   * @throws Error if a value does not match its column type, such as invalid
+   * JSON in a JSON column.
+   */
+  hydrate(row: Record<string, any>): T {
+    const instance = (
+      this.entity ? Object.create(this.entity.prototype) : {}
+    ) as Record<string, any>;
+
+    for (const [key, value] of Object.entries(row)) {
+      const column = this.byResultKey.get(this.resultKey(key));
+      if (!column) {
+        instance[key] = value;
+        continue;
+      }
+      instance[column.propertyKey] = this.converter.fromDatabase(column, value);
+    }
+    return instance as T;
+  }
+
+  /**
+   * Reads a value of a result row by column name or alias, matched without
+   * regard to case.
+   * @param row The row returned by the driver.
+   * @param name The column name or alias.
+   */
+  readColumn(row: Record<string, any>, name: string): any {
+    const target = this.resultKey(name);
+    const key = Object.keys(row).find(
+      (candidate) => candidate.toUpperCase() === target,
+    );
+    return key === undefined ? undefined : row[key];
+  }
+
+  // The key under which a column appears in result rows, compared in upper case
+  private resultKey(name: string): string {
+    const delimited = /^"(.*)"$/.exec(name);
+    return (delimited ? delimited[1].replace(/""/g, '"') : name).toUpperCase();
+  }
+}
@@ -26,7 +26,11 @@ export interface ColumnMetadata {
   /** The column name in the database, if different from the property name. */
   name?: string;
 
-  /** The data type of the column (e.g., 'string', 'number'). */
+  /**
+   * The data type of the column (e.g., 'string', 'number'). The model converts
+   * values of Db2 types such as 'boolean', 'timestamp', 'bigint', 'decimal'
+   * and 'json' to and from their JavaScript representation.
+   */
   type: string;
 
   /** Metadata for the foreign key relationship, if applicable. */
@@ -124,6 +128,32 @@ export interface ColumnMetadata {
 
   /** Indicates if the column should default to a generated UUID. */
   defaultToUUID?: boolean;
+
+  /** Custom conversion of the property value, applied on top of the type conversion. */
+  transformer?: ValueTransformer;
+}
+
+/**
+ * Converts a property value to and from the value stored in its column, such
+ * as an enum name to its code or a plain string to ciphertext. `to` runs
+ * before the value is converted for its column type, `from` after the value
+ * read has been converted. Both also receive NULL.
+ * @category Interfaces
+ *
+ * @example
+ * ```ts
+ * const statusTransformer: ValueTransformer = {
+ *   to: (status: Status) => STATUS_CODES[status],
+ *   from: (code: number) => STATUS_NAMES[code],
+ * };
+ * ```
+ */
+export interface ValueTransformer<P = any, C = any> {
+  /** Converts the property value to the column value. */
+  to(value: P): C;
+
+  /** Converts the column value to the property value. */
+  from(value: C): P;
 }
 
 /**
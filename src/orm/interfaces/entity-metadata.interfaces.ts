@@ -17,6 +17,8 @@ import {
   OneToOneMetadata,
   OneToManyMetadata,
 } from './relations.interfaces';
+import { ScopeMetadata } from './scope.interfaces';
+import { TemporalMetadata } from './temporal.interfaces';
 
 /**
  * Metadata for a table in a database schema.
@@ -83,6 +85,12 @@ export interface TableMetadata {
 
   /** An array of metadata for composite keys in the table. */
   compositeKeys: CompositeKeyMetadata[];
+
+  /** An array of named query scopes for the table. */
+  scopes: ScopeMetadata[];
+
+  /** The system-period versioning of the table; at most one entry, empty for regular tables. */
+  temporal: TemporalMetadata[];
 }
 
 /**
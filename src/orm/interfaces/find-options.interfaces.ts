@@ -0,0 +1,28 @@
+// Purpose: Interfaces for the options of the model's find methods.
+
+/**
+ * A relation of an entity, optionally followed by relations of the related
+ * entity, such as `'posts'` or `'posts.comments.author'`.
+ * @category Interfaces
+ */
+export type RelationPath<T> =
+  | (keyof T & string)
+  | `${keyof T & string}.${string}`;
+
+/**
+ * Options of `Model.find`, `findOne`, `findWithConditions` and
+ * `findPaginated`.
+ * @category Interfaces
+ *
+ * @example
+ * ```ts
+ * const options: FindOptions<User> = { relations: ['posts.comments', 'organization'] };
+ * ```
+ */
+export interface FindOptions<T> {
+  /**
+   * Relations loaded with the records. Each relation is loaded for all
+   * records at once, with one batched `IN (...)` query per level of a path.
+   */
+  relations?: RelationPath<T>[];
+}
@@ -11,5 +11,8 @@
 export * from './column.interfaces';
 export * from './constraints.interfaces';
 export * from './entity-metadata.interfaces';
+export * from './find-options.interfaces';
 export * from './keys.interfaces';
 export * from './relations.interfaces';
+export * from './scope.interfaces';
+export * from './temporal.interfaces';
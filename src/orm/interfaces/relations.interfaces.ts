@@ -24,8 +24,13 @@ export interface RelationMetadata {
 }
 
 export interface OneToManyMetadata extends RelationMetadata {
+  /** The column of this entity referenced by the target, its primary key by default. */
   sourceJoinColumn?: string;
   sourceInverseJoinColumn?: string;
+  /**
+   * The foreign key column of the target. Defaults to the target's foreign
+   * key or many-to-one relation referencing this entity.
+   */
   targetJoinColumn?: string;
   targetInverseJoinColumn?: string;
   sourceTable?: string;
@@ -33,20 +38,30 @@ export interface OneToManyMetadata extends RelationMetadata {
 }
 
 export interface ManyToOneMetadata extends RelationMetadata {
+  /**
+   * The foreign key column of this entity. Defaults to its foreign key
+   * referencing the target.
+   */
   joinColumn?: string;
   inverseJoinColumn?: string;
+  /** Same as `joinColumn`. */
   sourceJoinColumn?: string;
   sourceInverseJoinColumn?: string;
+  /** The referenced column of the target, its primary key by default. */
   targetJoinColumn?: string;
   targetInverseJoinColumn?: string;
   sourceTable?: string;
 }
 
 export interface ManyToManyMetadata extends RelationMetadata {
+  /** The column of the join table referencing this entity. */
   joinColumn?: string;
+  /** The column of the join table referencing the target. */
   inverseJoinColumn?: string;
+  /** The column of this entity referenced by `joinColumn`, its primary key by default. */
   sourceJoinColumn?: string;
   sourceInverseJoinColumn?: string;
+  /** The column of the target referenced by `inverseJoinColumn`, its primary key by default. */
   targetJoinColumn?: string;
   targetInverseJoinColumn?: string;
   sourceTable?: string;
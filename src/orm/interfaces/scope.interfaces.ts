@@ -0,0 +1,25 @@
+// Purpose: Interfaces for query scopes.
+
+import { ScopeFunction } from '../../interfaces/query-builder.interface';
+
+/**
+ * Metadata for a named query scope of an entity.
+ * A scope is reusable query logic that can be applied to any query builder
+ * created for the entity.
+ * @category Interfaces
+ *
+ * @example
+ * ```ts
+ * const scopeMetadata: ScopeMetadata = {
+ *   name: 'published',
+ *   apply: (qb) => qb.where({ status: 'published' }),
+ * };
+ * ```
+ */
+export interface ScopeMetadata {
+  /** The name the scope is applied by. */
+  name: string;
+
+  /** The function that applies the scope to a query builder. */
+  apply: ScopeFunction;
+}
@@ -0,0 +1,57 @@
+// Purpose: Interfaces for system-period temporal tables.
+
+/**
+ * Metadata for a system-period temporal table.
+ * Db2 keeps the previous versions of every updated or deleted row in the
+ * history table, so the table can be queried as it was at any point in time.
+ * @category Interfaces
+ *
+ * @example
+ * ```ts
+ * const temporalMetadata: TemporalMetadata = {
+ *   historyTable: 'orders_history',
+ *   rowBeginColumn: 'sys_start',
+ *   rowEndColumn: 'sys_end',
+ *   transactionStartColumn: 'trans_start',
+ * };
+ * ```
+ */
+export interface TemporalMetadata {
+  /** The name of the history table. */
+  historyTable: string;
+
+  /** The column holding the time a row version became current. */
+  rowBeginColumn: string;
+
+  /** The column holding the time a row version stopped being current. */
+  rowEndColumn: string;
+
+  /** The column holding the start time of the transaction that wrote the row version. */
+  transactionStartColumn: string;
+}
+
+/**
+ * The parts of system-period versioning a table already has, as read from the
+ * Db2 catalog. The migration only adds the missing parts, so it can run again
+ * on a table that is already versioned.
+ * @category Interfaces
+ */
+export interface TemporalTableState {
+  /** Whether the row-begin column exists. */
+  rowBeginColumn: boolean;
+
+  /** Whether the row-end column exists. */
+  rowEndColumn: boolean;
+
+  /** Whether the transaction-start column exists. */
+  transactionStartColumn: boolean;
+
+  /** Whether the SYSTEM_TIME period is defined. */
+  period: boolean;
+
+  /** Whether the history table exists. */
+  historyTable: boolean;
+
+  /** Whether versioning is enabled. */
+  versioning: boolean;
+}
@@ -18,6 +18,8 @@ export type MetadataType =
   | 'compositeKeys'
   | 'primaryKeys'
   | 'uniqueColumns'
+  | 'scopes'
+  | 'temporal'
   | 'entity'
   | 'view'
   | 'table';
@@ -51,6 +53,8 @@ export class MetadataManager {
           defaultValues: [],
           constraints: [],
           compositeKeys: [],
+          scopes: [],
+          temporal: [],
         },
         viewMetadata: undefined,
       };
@@ -2,6 +2,7 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import { Model } from './model';
+import { ClassConstructor } from './types';
 
 @Injectable()
 export class ModelRegistry {
@@ -51,6 +52,21 @@ export class ModelRegistry {
     }
   }
 
+  /**
+   * Retrieves the model of an entity, registered by `Db2Module` under the
+   * name `<Entity>Model`.
+   * @param entity - The entity class.
+   * @returns The model instance if found, or `undefined` if not registered.
+   *
+   * @example
+   * ```ts
+   * const postModel = modelRegistry.getModelForEntity(Post);
+   * ```
+   */
+  getModelForEntity<T>(entity: ClassConstructor<T>): Model<T> | undefined {
+    return this.getModel<T>(`${entity.name}Model`);
+  }
+
   /**
    * Checks if a model with the given name is registered.
    * @param name - The name of the model to check.
@@ -4,25 +4,39 @@
 
 import { Schema } from './schema';
 import { Injectable, Logger } from '@nestjs/common';
-import { IQueryBuilder } from '../interfaces/query-builder.interface';
+import {
+  EntityColumn,
+  IQueryBuilder,
+} from '../interfaces/query-builder.interface';
+import {
+  CompiledCondition,
+  WhereCondition,
+} from '../interfaces/where-condition.interface';
+import {
+  AggregateExpression,
+  AggregateResult,
+} from '../interfaces/aggregate.interface';
 import { QueryBuilder } from '../db/query-builder';
+import { ConditionCompiler } from '../db/condition-compiler';
+import { IdentifierQuoter } from '../db/identifier-quoter';
 import { ModelRegistry } from './model-registry';
 import { validateOrReject } from '../validation/validateOrReject';
+import { ColumnMetadata } from './interfaces/column.interfaces';
 import {
-  ManyToManyMetadata,
-  ManyToOneMetadata,
-  OneToManyMetadata,
-} from './interfaces/relations.interfaces';
-import { MetadataManager } from './metadata';
+  FindOptions,
+  RelationPath,
+} from './interfaces/find-options.interfaces';
+import { EntityMapper } from './entity-mapper';
+import { RelationLoader } from './relation-loader';
+import { RelationWriter } from './relation-writer';
 import { ClassConstructor } from './types';
-import { Client } from '../db';
+import { Client } from '../db/client';
 
 @Injectable()
 export class Model<T> {
   private readonly logger = new Logger(Model.name);
   private schema: Schema<ClassConstructor<any>[]>;
   private currentEntity?: ClassConstructor<any>;
-  private metadataManager: MetadataManager;
 
   constructor(
     private client: Client,
@@ -30,7 +44,6 @@ export class Model<T> {
     private modelRegistry: ModelRegistry,
   ) {
     this.schema = schema;
-    this.metadataManager = new MetadataManager();
   }
 
   /**
@@ -49,21 +62,45 @@ export class Model<T> {
   }
 
   /**
-   * Integrate QueryBuilder for advanced queries.
-   * @returns A new instance of the QueryBuilder.
+   * Integrate QueryBuilder for advanced queries. Column references passed to
+   * the builder are checked against the entity's properties at compile time
+   * and emitted as the columns the properties map to; qualified references,
+   * such as `p.title`, are taken as written. Values compared in structured
+   * conditions are converted like the values written by `save`, so a Date
+   * compared with a timestamp column is bound as a timestamp string. Scopes
+   * registered with `@QueryScope` can be applied with `scope()`. Unlike the
+   * model's own methods, the builder returns the rows as the driver reports
+   * them.
+   * @returns A new instance of the QueryBuilder, typed for the entity.
    * @throws Will throw an error if retrieving the metadata fails.
    *
    * @example
    * ```ts
-   * const queryBuilder = model.createQueryBuilder();
+   * const titles = await model
+   *   .createQueryBuilder()
+   *   .select(['id', 'title'])
+   *   .orderBy('createdAt', 'DESC') // ORDER BY created_at DESC
+   *   .execute(); // { id: number; title: string }[]
    * ```
    */
-  createQueryBuilder(): IQueryBuilder {
+  createQueryBuilder(): IQueryBuilder<T> {
     try {
       const metadata = this.schema.getCurrentMetadata();
       const schemaName = metadata.name || 'public'; // Use schema if provided
       const tableName = `${schemaName}.${metadata.tableMetadata!.tableName}`;
-      return new QueryBuilder(tableName, this.client);
+      const mapper = this.mapper();
+      return new QueryBuilder<T>(tableName, this.client, {
+        columns: this.columnNames(),
+        columnName: (property) => mapper.columnName(property),
+        columnValue: (property, value) => mapper.toColumnValue(property, value),
+        columnTypes: this.columnTypes(),
+        scopes: Object.fromEntries(
+          (metadata.tableMetadata!.scopes ?? []).map((scope) => [
+            scope.name,
+            scope.apply,
+          ]),
+        ),
+      });
     } catch (error) {
       this.logger.error(`Failed to create query builder: ${error.message}`);
       throw new Error(`Failed to create query builder: ${error.message}`);
@@ -145,51 +182,65 @@ export class Model<T> {
   }
 
   /**
-   * Save the instance to the database.
+   * Save the instance to the database. Identity and generated columns are
+   * left to Db2, as are columns without a value, so their defaults apply.
+   * The inserted row is read back with `SELECT * FROM FINAL TABLE (INSERT ...)`
+   * and its values, such as generated keys and defaults, are assigned to the
+   * instance.
    * @param instance - The instance to save.
-   * @returns The saved instance.
+   * @returns The saved instance, or a new entity instance when a plain object is passed.
    * @throws Will throw an error if the table name is not defined or the insert operation fails.
    *
    * @example
    * ```ts
    * const user = await model.save({ username: 'john_doe', age: 25 });
+   * user.id; // generated by Db2
    * ```
    */
-
-  private buildConditions(query: Partial<T>): string {
-    // Convert the query object into SQL conditions
-    return Object.keys(query)
-      .map((key) => `${key} = ?`)
-      .join(' AND ');
-  }
-
-  // Save the instance to the database
   async save(instance: T): Promise<T> {
     const metadata = this.schema.getCurrentMetadata();
     const schemaName = metadata.name || 'public';
-    const tableName = `${schemaName}.${metadata.tableMetadata?.tableName}`;
+    const identifiers = this.identifiers();
+    const tableName = identifiers.qualified(
+      `${schemaName}.${metadata.tableMetadata?.tableName}`,
+    );
     if (!tableName) throw new Error('Table name is not defined in the schema.');
 
     // Build the SQL statement
-    const columns = metadata.tableMetadata.columns;
-    const columnNames = columns.map((col) => col.propertyKey).join(', ');
-    const placeholders = columns.map(() => '?').join(', ');
-    const values = columns.map(
-      (col) => (instance as any)[col.propertyKey] ?? null,
+    const mapper = this.mapper();
+    const columns = metadata.tableMetadata.columns.filter(
+      (col) =>
+        !this.isDatabaseGenerated(col) &&
+        (instance as any)[col.propertyKey] !== undefined,
     );
-
-    const sql = `INSERT INTO ${tableName} (${columnNames}) VALUES (${placeholders}) RETURNING *`;
+    const values = columns.map((col) =>
+      mapper.toColumnValue(col.propertyKey, (instance as any)[col.propertyKey]),
+    );
+    const insert =
+      columns.length > 0
+        ? `INSERT INTO ${tableName} (${columns
+            .map((col) =>
+              identifiers.column(mapper.columnName(col.propertyKey)),
+            )
+            .join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+        : this.defaultValuesInsert(tableName, identifiers);
+
+    const sql = `SELECT * FROM FINAL TABLE (${insert})`;
     this.logger.debug(
-      `Executing SQL: ${sql} with values: ${JSON.stringify(values)}`,
+      `Executing SQL: ${sql} with values: ${this.stringify(values)}`,
     );
 
     try {
       const result = await this.client.query<T[]>(sql, values);
       if (result.length > 0) {
         this.logger.log(
-          `Inserted into ${tableName}: ${JSON.stringify(result[0])}`,
+          `Inserted into ${tableName}: ${this.stringify(result[0])}`,
         );
-        return result[0];
+        const saved = mapper.hydrate(result[0]);
+        if (this.currentEntity && !(instance instanceof this.currentEntity)) {
+          return saved;
+        }
+        return Object.assign(instance as object, saved) as T;
       }
       throw new Error('Insert operation did not return any results.');
     } catch (error) {
@@ -202,7 +253,8 @@ export class Model<T> {
   }
 
   /**
-   *  Find records with conditions. Supports sorting, limiting, and offset.
+   *  Find records with conditions. Supports sorting, limiting, offset and
+   *  loading relations.
    * @param query
    * @param options
    * @returns
@@ -215,18 +267,19 @@ export class Model<T> {
    */
 
   async findWithConditions(
-    query: Partial<T>,
+    query: WhereCondition<T>,
     options: {
-      sort?: Record<string, 'ASC' | 'DESC'>;
+      sort?: Partial<Record<EntityColumn<T>, 'ASC' | 'DESC'>>;
       limit?: number;
       offset?: number;
-    } = {},
+    } & FindOptions<T> = {},
   ): Promise<T[]> {
-    const qb = this.createQueryBuilder().where(this.buildConditions(query));
+    const mapper = this.mapper();
+    const qb = this.queryBuilderFor(query);
 
     if (options.sort) {
-      for (const [column, direction] of Object.entries(options.sort)) {
-        qb.orderBy(column, direction as 'ASC' | 'DESC');
+      for (const column of Object.keys(options.sort) as EntityColumn<T>[]) {
+        qb.orderBy(column, options.sort[column]);
       }
     }
 
@@ -240,15 +293,17 @@ export class Model<T> {
 
     const { query: sql, params } = qb.build();
     this.logger.debug(
-      `Executing SQL: ${sql} with params: ${JSON.stringify(params)}`,
+      `Executing SQL: ${sql} with params: ${this.stringify(params)}`,
     );
 
     try {
-      const results = await this.client.query<T[]>(sql, Object.values(params));
+      const results = await this.client.query<T[]>(sql, params);
       this.logger.log(
         `Query executed successfully on ${this.schema.getCurrentMetadata().tableMetadata!.tableName}: ${sql}`,
       );
-      return results;
+      const records = results.map((row) => mapper.hydrate(row));
+      await this.loadRelations(records, options.relations);
+      return records;
     } catch (error) {
       this.logger.error(
         `Error executing query on ${this.schema.getCurrentMetadata().tableMetadata!.tableName}: ${error.message}`,
@@ -261,33 +316,42 @@ export class Model<T> {
   }
 
   /**
-   * Find records with conditions and return the first result.
+   * Find records with conditions.
    * @param query - The query conditions.
-   * @param options - Query options.
-   * @returns The first record matching the query.
+   * @param options - The relations to load with the records.
+   * @returns The records matching the query.
    * @throws Will throw an error if the query operation fails.
    *
    * @example
    * ```ts
-   * const user = await model.findOneWithConditions({ username: 'john_doe' });
+   * const users = await model.find({ age: 25 }, { relations: ['posts'] });
    * ```
    */
-  async find(query: Partial<T>): Promise<T[]> {
+  async find(
+    query: WhereCondition<T>,
+    options: FindOptions<T> = {},
+  ): Promise<T[]> {
     const metadata = this.schema.getCurrentMetadata();
     const schemaName = metadata.name || 'public';
-    const tableName = `${schemaName}.${metadata.tableMetadata?.tableName}`;
+    const identifiers = this.identifiers();
+    const tableName = identifiers.qualified(
+      `${schemaName}.${metadata.tableMetadata?.tableName}`,
+    );
     if (!tableName) throw new Error('Table name is not defined in the schema.');
 
     // Generate SELECT SQL using the schema's metadata and the query
     const { sql, params } = this.buildSelectQuery(query, tableName);
     this.logger.debug(
-      `Executing SQL: ${sql} with params: ${JSON.stringify(params)}`,
+      `Executing SQL: ${sql} with params: ${this.stringify(params)}`,
     );
 
     try {
       const results = await this.client.query<T[]>(sql, params);
       this.logger.log(`Query executed successfully on ${tableName}: ${sql}`);
-      return results;
+      const mapper = this.mapper();
+      const records = results.map((row) => mapper.hydrate(row));
+      await this.loadRelations(records, options.relations);
+      return records;
     } catch (error) {
       this.logger.error(
         `Error executing query on ${tableName}: ${error.message}`,
@@ -300,6 +364,7 @@ export class Model<T> {
   /**
    * Find a single record with conditions.
    * @param query - The query conditions.
+   * @param options - The relations to load with the record.
    * @returns The first record matching the query or null if not found.
    * @throws Will throw an error if the query operation fails.
    *
@@ -308,47 +373,69 @@ export class Model<T> {
    * const user = await model.findOne({ username: 'john_doe' });
    * ```
    */
-  async findOne(query: Partial<T>): Promise<T | null> {
-    const results = await this.find(query);
+  async findOne(
+    query: WhereCondition<T>,
+    options: FindOptions<T> = {},
+  ): Promise<T | null> {
+    const results = await this.find(query, options);
     return results.length > 0 ? results[0] : null;
   }
 
   /**
-   * Update records with conditions.
+   * Update records with conditions. The updated rows are read back with
+   * `SELECT * FROM FINAL TABLE (UPDATE ...)`, so values set by Db2, such as
+   * row-change timestamps, are included.
    * @param query - The query conditions.
-   * @param data - The data to update.
-   * @throws Will throw an error if the update operation fails.
+   * @param data - The data to update. Properties set to `undefined` are ignored.
+   * @returns The updated records in their new state.
+   * @throws Will throw an error if there is nothing to update or the update operation fails.
    *
    * @example
    * ```ts
-   * await model.update({ username: 'john_doe' }, { age: 26 });
+   * const [user] = await model.update({ username: 'john_doe' }, { age: 26 });
    * ```
    */
-  async update(query: Partial<T>, data: Partial<T>): Promise<void> {
+  async update(query: WhereCondition<T>, data: Partial<T>): Promise<T[]> {
     const metadata = this.schema.getCurrentMetadata();
     const schemaName = metadata.name || 'public';
-    const tableName = `${schemaName}.${metadata.tableMetadata?.tableName}`;
+    const identifiers = this.identifiers();
+    const tableName = identifiers.qualified(
+      `${schemaName}.${metadata.tableMetadata?.tableName}`,
+    );
     if (!tableName) throw new Error('Table name is not defined in the schema.');
 
     // Generate UPDATE SQL using parameterized queries
-    const setClause = Object.keys(data)
-      .map((key) => `${key} = ?`)
+    const mapper = this.mapper();
+    const keys = Object.keys(data).filter(
+      (key) => (data as any)[key] !== undefined,
+    );
+    if (keys.length === 0) {
+      throw new Error('Update requires at least one value to set.');
+    }
+    const setClause = keys
+      .map((key) => `${identifiers.column(mapper.columnName(key))} = ?`)
       .join(', ');
-    const setValues = Object.keys(data).map((key) => (data as any)[key]);
+    const setValues = keys.map((key) =>
+      mapper.toColumnValue(key, (data as any)[key]),
+    );
 
-    const { sql: whereSql, params: whereParams } = this.buildWhereClause(query);
-    const sql = `UPDATE ${tableName} SET ${setClause} ${whereSql}`;
+    const { sql: whereSql, params: whereParams } = this.buildWhereClause(
+      query,
+      identifiers,
+    );
+    const sql = `SELECT * FROM FINAL TABLE (UPDATE ${tableName} SET ${setClause} ${whereSql})`;
     const values = [...setValues, ...whereParams];
 
     this.logger.debug(
-      `Executing SQL: ${sql} with values: ${JSON.stringify(values)}`,
+      `Executing SQL: ${sql} with values: ${this.stringify(values)}`,
     );
 
     try {
-      await this.client.query(sql, values);
+      const rows = await this.client.query<Record<string, any>[]>(sql, values);
       this.logger.log(
-        `Updated records in ${tableName} with query: ${JSON.stringify(query)}`,
+        `Updated records in ${tableName} with query: ${this.stringify(query)}`,
       );
+      return rows.map((row) => mapper.hydrate(row));
     } catch (error) {
       this.logger.error(
         `Error updating ${tableName}: ${error.message}`,
@@ -368,24 +455,30 @@ export class Model<T> {
    * await model.delete({ username: 'john_doe' });
    * ```
    */
-  async delete(query: Partial<T>): Promise<boolean> {
+  async delete(query: WhereCondition<T>): Promise<boolean> {
     const metadata = this.schema.getCurrentMetadata();
     const schemaName = metadata.name || 'public';
-    const tableName = `${schemaName}.${metadata.tableMetadata?.tableName}`;
+    const identifiers = this.identifiers();
+    const tableName = identifiers.qualified(
+      `${schemaName}.${metadata.tableMetadata?.tableName}`,
+    );
     if (!tableName) throw new Error('Table name is not defined in the schema.');
 
     // Generate DELETE SQL using parameterized queries
-    const { sql: whereSql, params: whereParams } = this.buildWhereClause(query);
+    const { sql: whereSql, params: whereParams } = this.buildWhereClause(
+      query,
+      identifiers,
+    );
     const sql = `DELETE FROM ${tableName} ${whereSql}`;
 
     this.logger.debug(
-      `Executing SQL: ${sql} with params: ${JSON.stringify(whereParams)}`,
+      `Executing SQL: ${sql} with params: ${this.stringify(whereParams)}`,
     );
 
     try {
       await this.client.query(sql, whereParams);
       this.logger.log(
-        `Deleted records from ${tableName} with query: ${JSON.stringify(query)}`,
+        `Deleted records from ${tableName} with query: ${this.stringify(query)}`,
       );
       return true;
     } catch (error) {
@@ -407,28 +500,35 @@ export class Model<T> {
    * await model.softDelete({ username: 'john_doe' });
    * ```
    */
-  async softDelete(query: Partial<T>): Promise<void> {
+  async softDelete(query: WhereCondition<T>): Promise<void> {
     const metadata = this.schema.getCurrentMetadata();
     const schemaName = metadata.name || 'public';
-    const tableName = `${schemaName}.${metadata.tableMetadata?.tableName}`;
+    const identifiers = this.identifiers();
+    const tableName = identifiers.qualified(
+      `${schemaName}.${metadata.tableMetadata?.tableName}`,
+    );
     if (!tableName) throw new Error('Table name is not defined in the schema.');
 
     // Assume there's a 'deletedAt' column for soft deletes
-    const setClause = `deletedAt = ?`;
-    const setValue = new Date();
+    const mapper = this.mapper();
+    const setClause = `${identifiers.identifier(mapper.columnName('deletedAt'))} = ?`;
+    const setValue = mapper.toColumnValue('deletedAt', new Date());
 
-    const { sql: whereSql, params: whereParams } = this.buildWhereClause(query);
+    const { sql: whereSql, params: whereParams } = this.buildWhereClause(
+      query,
+      identifiers,
+    );
     const sql = `UPDATE ${tableName} SET ${setClause} ${whereSql}`;
     const values = [setValue, ...whereParams];
 
     this.logger.debug(
-      `Executing SQL: ${sql} with values: ${JSON.stringify(values)}`,
+      `Executing SQL: ${sql} with values: ${this.stringify(values)}`,
     );
 
     try {
       await this.client.query(sql, values);
       this.logger.log(
-        `Soft deleted records in ${tableName} with query: ${JSON.stringify(query)}`,
+        `Soft deleted records in ${tableName} with query: ${this.stringify(query)}`,
       );
     } catch (error) {
       this.logger.error(
@@ -449,16 +549,174 @@ export class Model<T> {
    * await model.restore({ username: 'john_doe' });
    * ```
    */
-  private buildWhereClause(query: Partial<T>): { sql: string; params: any[] } {
-    const keys = Object.keys(query);
-    if (keys.length === 0) {
-      return { sql: '', params: [] };
+  private buildWhereClause(
+    query: WhereCondition<T>,
+    identifiers: IdentifierQuoter = this.identifiers(),
+  ): {
+    sql: string;
+    params: any[];
+  } {
+    const { sql, params } = this.compileCondition(query, identifiers);
+    return { sql: sql ? `WHERE ${sql}` : '', params };
+  }
+
+  /**
+   * Compile a condition on the entity's properties into SQL on its columns.
+   */
+  private compileCondition(
+    query: WhereCondition<T>,
+    identifiers: IdentifierQuoter = this.identifiers(),
+  ): CompiledCondition {
+    const mapper = this.mapper();
+    const compiler = new ConditionCompiler(
+      (key) => identifiers.column(mapper.columnName(key)),
+      (key, value) => mapper.toColumnValue(key, value),
+    );
+    return compiler.compile(query);
+  }
+
+  /**
+   * Create a query builder filtered by a condition on the entity's properties.
+   */
+  private queryBuilderFor(query: WhereCondition<T>): IQueryBuilder<T> {
+    const { sql, params } = this.compileCondition(query);
+    const qb = this.createQueryBuilder();
+    return sql ? qb.where(sql, params) : qb;
+  }
+
+  /**
+   * Whether Db2 generates the value of a column: identity columns, including
+   * auto-increment primary keys, and generated or virtual columns.
+   */
+  private isDatabaseGenerated(column: ColumnMetadata): boolean {
+    if (
+      column.autoIncrement ||
+      column.generated ||
+      column.virtual ||
+      column.asExpression
+    ) {
+      return true;
+    }
+    const primaryKeys =
+      this.schema.getCurrentMetadata().tableMetadata?.primaryKeys ?? [];
+    return primaryKeys.some(
+      (key) =>
+        key.propertyKey === column.propertyKey &&
+        (key.autoIncrement || key.generated),
+    );
+  }
+
+  /**
+   * Build an INSERT of a row without values. Db2 has no DEFAULT VALUES
+   * clause, so the first column is set to DEFAULT explicitly.
+   */
+  private defaultValuesInsert(
+    tableName: string,
+    identifiers: IdentifierQuoter,
+  ): string {
+    const [first] = this.schema.getCurrentMetadata().tableMetadata.columns;
+    if (!first) {
+      throw new Error('Cannot insert into a table without columns.');
+    }
+    const column = identifiers.column(
+      this.mapper().columnName(first.propertyKey),
+    );
+    return `INSERT INTO ${tableName} (${column}) VALUES (DEFAULT)`;
+  }
+
+  /**
+   * Load relations for records of the current entity, one query per relation
+   * and level of a path.
+   */
+  private async loadRelations(
+    records: T[],
+    relations: string[] = [],
+  ): Promise<void> {
+    if (relations.length === 0 || records.length === 0) {
+      return;
+    }
+    if (!this.currentEntity) {
+      throw new Error('No entity is set to load relations for.');
+    }
+    await new RelationLoader(this.client, this.modelRegistry).load(
+      this.currentEntity,
+      records,
+      relations,
+    );
+  }
+
+  /**
+   * Create the writer of many-to-many links for the current entity.
+   */
+  private relationWriter(): RelationWriter {
+    if (!this.currentEntity) {
+      throw new Error('No entity is set to update relations for.');
     }
+    return new RelationWriter(this.client);
+  }
 
-    const conditions = keys.map((key) => `${key} = ?`).join(' AND ');
-    const params = keys.map((key) => (query as any)[key]);
+  /**
+   * Serialize a value for the log. BIGINT values are written as strings,
+   * which JSON.stringify rejects.
+   */
+  private stringify(value: any): string {
+    return JSON.stringify(value, (_key, item) =>
+      typeof item === 'bigint' ? item.toString() : item,
+    );
+  }
 
-    return { sql: `WHERE ${conditions}`, params };
+  /**
+   * Create the mapper between the current entity's properties and columns.
+   */
+  private mapper(): EntityMapper<T> {
+    return new EntityMapper<T>(
+      this.schema.getCurrentMetadata().tableMetadata?.columns ?? [],
+      this.currentEntity,
+    );
+  }
+
+  /**
+   * Create the identifier quoter for the current entity. In strict mode,
+   * only the entity's columns are accepted.
+   */
+  private identifiers(): IdentifierQuoter {
+    return new IdentifierQuoter({
+      ...this.client?.getIdentifierOptions(),
+      columns: this.columnNames(),
+    });
+  }
+
+  // Column names and property keys known from the entity metadata
+  private columnNames(): string[] {
+    const columns =
+      this.schema.getCurrentMetadata().tableMetadata?.columns ?? [];
+    return [
+      ...new Set(
+        columns.flatMap((column) => [
+          column.name ?? String(column.propertyKey),
+          String(column.propertyKey),
+        ]),
+      ),
+    ];
+  }
+
+  // SQL data types of the entity's columns, by property key and column name
+  private columnTypes(): Record<string, string> {
+    const mapper = this.mapper();
+    const columns =
+      this.schema.getCurrentMetadata().tableMetadata?.columns ?? [];
+    return Object.fromEntries(
+      columns.flatMap((column) => {
+        const property = String(column.propertyKey);
+        const type = mapper.sqlType(property);
+        return type
+          ? [
+              [property, type],
+              [column.name ?? property, type],
+            ]
+          : [];
+      }),
+    );
   }
 
   /**
@@ -474,7 +732,7 @@ export class Model<T> {
    * ```
    */
   private buildSelectQuery(
-    query: Partial<T>,
+    query: WhereCondition<T>,
     tableName: string,
   ): { sql: string; params: any[] } {
     const { sql: whereSql, params } = this.buildWhereClause(query);
@@ -483,93 +741,113 @@ export class Model<T> {
   }
 
   /**
-   * Populate a relation for an instance.
-   * @param instance - The instance to populate.
-   * @param path - The relation path to populate.
-   * @returns The instance with the populated relation.
-   * @throws Will throw an error if the relation is not found.
+   * Populate relations, or dotted paths of relations, for one or more
+   * instances. Each level of a path is loaded for all instances with one
+   * batched query; the levels past the first are loaded by the models of the
+   * related entities, looked up in the model registry.
+   * @param instances - The instance or instances to populate.
+   * @param paths - The relation path or paths to populate.
+   * @returns The instances with the populated relations.
+   * @throws Will throw an error if a relation is not found, a path is cyclic,
+   * or a related entity has no registered model.
    *
    * @example
    * ```ts
-   * const user = await model.populate(user, 'posts');
+   * await model.populate(users, 'posts.comments.author');
+   * await model.populate(user, ['posts', 'roles']);
    * ```
    */
-  async populate(instance: T, path: keyof T & string): Promise<T> {
-    const oneToManyRelations = this.metadataManager.getPropertyMetadata<
-      OneToManyMetadata[]
-    >(this.currentEntity, 'oneToManyRelations');
-    const manyToOneRelations = this.metadataManager.getPropertyMetadata<
-      ManyToOneMetadata[]
-    >(this.currentEntity, 'manyToOneRelations');
-    const manyToManyRelations = this.metadataManager.getPropertyMetadata<
-      ManyToManyMetadata[]
-    >(this.currentEntity, 'manyToManyRelations');
-
-    const relationMetadata:
-      | ManyToManyMetadata
-      | OneToManyMetadata
-      | ManyToOneMetadata =
-      (oneToManyRelations.find(
-        (rel: any) => rel.propertyKey === path,
-      ) as OneToManyMetadata) ||
-      (manyToOneRelations.find(
-        (rel: any) => rel.propertyKey === path,
-      ) as ManyToOneMetadata) ||
-      (manyToManyRelations.find(
-        (rel: any) => rel.propertyKey === path,
-      ) as ManyToManyMetadata);
-
-    if (!relationMetadata) {
-      throw new Error(
-        `Relation '${path}' not found on '${this.schema.getCurrentMetadata().tableMetadata?.tableName}'.`,
-      );
-    }
-
-    // Determine related model token
-    const relatedModelToken = `${relationMetadata.target.name}Model`;
-
-    // Retrieve the related model from the registry
-    const relatedModel = this.modelRegistry.getModel<any>(relatedModelToken);
-
-    if (!relatedModel) {
-      throw new Error(
-        `Related model '${relationMetadata.target.name}' not found.`,
-      );
-    }
-
-    // Determine the foreign key value based on relation type
-    let foreignKeyValue: any;
-
-    if ('manyToManyRelations' in relationMetadata) {
-      // For ManyToMany, use instance's id
-      foreignKeyValue = (instance as any).id;
-    } else if ('manyToOneRelations' in relationMetadata) {
-      // For ManyToOne, foreign key is in current instance (e.g., userId)
-      foreignKeyValue = (instance as any)[
-        `${String(relationMetadata.propertyKey)}Id`
-      ];
-    } else if ('oneToManyRelations' in relationMetadata) {
-      // For OneToMany, foreign key is in related instance (e.g., organizationId)
-      foreignKeyValue = (instance as any).id;
-    }
-
-    if (foreignKeyValue === undefined) {
-      throw new Error(`Foreign key value for relation '${path}' is undefined.`);
-    }
-
-    // Fetch related data using the related model's find method
-    const relatedData = await relatedModel.find({
-      [relationMetadata.propertyKey]: foreignKeyValue,
-    });
+  async populate(
+    instance: T,
+    paths: RelationPath<T> | RelationPath<T>[],
+  ): Promise<T>;
+  async populate(
+    instances: T[],
+    paths: RelationPath<T> | RelationPath<T>[],
+  ): Promise<T[]>;
+  async populate(
+    instances: T | T[],
+    paths: RelationPath<T> | RelationPath<T>[],
+  ): Promise<T | T[]> {
+    const relations: string[] = [].concat(paths);
+    await this.loadRelations([].concat(instances), relations);
+    this.logger.log(
+      `Populated relations '${relations.join("', '")}' on ${this.schema.getCurrentMetadata().tableMetadata?.tableName}`,
+    );
+    return instances;
+  }
 
-    // Assign the related data to the instance
-    (instance as any)[path] = relatedData;
+  /**
+   * Link an instance to records of a many-to-many relation by inserting
+   * the join-table rows that do not exist yet.
+   * @param instance - The instance, with its key set.
+   * @param path - The many-to-many relation.
+   * @param keys - The key or keys of the related records.
+   * @throws Will throw an error if the relation is not a many-to-many relation or the statement fails.
+   *
+   * @example
+   * ```ts
+   * await model.addRelation(user, 'roles', [adminRoleId]);
+   * ```
+   */
+  async addRelation(
+    instance: T,
+    path: keyof T & string,
+    keys: any | any[],
+  ): Promise<void> {
+    await this.relationWriter().add(
+      this.currentEntity,
+      instance,
+      path,
+      [].concat(keys),
+    );
+  }
 
-    this.logger.log(
-      `Populated relation '${path}' for instance: ${JSON.stringify(instance)}`,
+  /**
+   * Unlink an instance from records of a many-to-many relation by deleting
+   * join-table rows.
+   * @param instance - The instance, with its key set.
+   * @param path - The many-to-many relation.
+   * @param keys - The key or keys of the related records.
+   * @throws Will throw an error if the relation is not a many-to-many relation or the statement fails.
+   *
+   * @example
+   * ```ts
+   * await model.removeRelation(user, 'roles', adminRoleId);
+   * ```
+   */
+  async removeRelation(
+    instance: T,
+    path: keyof T & string,
+    keys: any | any[],
+  ): Promise<void> {
+    await this.relationWriter().remove(
+      this.currentEntity,
+      instance,
+      path,
+      [].concat(keys),
     );
+  }
 
-    return instance;
+  /**
+   * Replace the records an instance is linked to in a many-to-many relation.
+   * The join-table rows are replaced in one atomic statement.
+   * @param instance - The instance, with its key set.
+   * @param path - The many-to-many relation.
+   * @param keys - The keys of all related records. An empty list removes every link.
+   * @throws Will throw an error if the relation is not a many-to-many relation or the statement fails.
+   *
+   * @example
+   * ```ts
+   * await model.setRelations(user, 'roles', [1, 3]);
+   * ```
+   */
+  async setRelations(
+    instance: T,
+    path: keyof T & string,
+    keys: any[],
+  ): Promise<void> {
+    await this.relationWriter().set(this.currentEntity, instance, path, keys);
   }
 
   /**
@@ -577,6 +855,7 @@ export class Model<T> {
    * @param query - The query conditions.
    * @param page - The page number.
    * @param pageSize - The page size.
+   * @param options - The relations to load with the records of the page.
    * @returns Paginated data with total count.
    * @throws Will throw an error if the paginated query operation fails.
    *
@@ -586,33 +865,41 @@ export class Model<T> {
    * ```
    */
   async findPaginated(
-    query: Partial<T>,
+    query: WhereCondition<T>,
     page: number = 1,
     pageSize: number = 10,
+    options: FindOptions<T> = {},
   ): Promise<{ data: T[]; total: number; page: number; pageSize: number }> {
-    const qb = this.createQueryBuilder().where(this.buildConditions(query));
-
-    qb.limit(pageSize).offset((page - 1) * pageSize);
+    const mapper = this.mapper();
+    const base = this.queryBuilderFor(query).immutable();
+    const qb = base
+      .limit(pageSize)
+      .offset((page - 1) * pageSize)
+      .optimizeFor(pageSize);
 
     const { query: sql, params } = qb.build();
     this.logger.debug(
-      `Executing SQL: ${sql} with params: ${JSON.stringify(params)}`,
+      `Executing SQL: ${sql} with params: ${this.stringify(params)}`,
     );
-    const data = await this.client.query<T[]>(sql, params);
+    const rows = await this.client.query<T[]>(sql, params);
+    const data = rows.map((row) => mapper.hydrate(row));
+    await this.loadRelations(data, options.relations);
 
     // Get total count
-    const countQb = this.createQueryBuilder()
-      .count()
-      .where(this.buildConditions(query));
+    const countQb = base.count();
     const { query: countSql, params: countParams } = countQb.build();
     this.logger.debug(
-      `Executing SQL: ${countSql} with params: ${JSON.stringify(countParams)}`,
+      `Executing SQL: ${countSql} with params: ${this.stringify(countParams)}`,
     );
     const countResult = await this.client.query<{ count: number }[]>(
       countSql,
       countParams,
     );
-    const total = countResult.length > 0 ? countResult[0].count : 0;
+    // Db2 reports the unquoted alias in upper case (COUNT)
+    const total =
+      countResult.length > 0
+        ? Number(mapper.readColumn(countResult[0], 'count') ?? 0)
+        : 0;
 
     this.logger.log(
       `Paginated query executed successfully on ${this.schema.getCurrentMetadata().tableMetadata!.tableName}: ${sql}`,
@@ -621,6 +908,119 @@ export class Model<T> {
     return { data, total, page, pageSize };
   }
 
+  /**
+   * Compute aggregates over the records matching a condition, optionally per
+   * group. The result rows use the given aliases and group columns as keys.
+   * @param aggregates - The aggregates to compute, by result alias.
+   * @param options - The condition and the columns to group by.
+   * @returns One row, or one row per group.
+   * @throws Will throw an error if an aggregate is invalid or the query fails.
+   *
+   * @example
+   * ```ts
+   * const [{ orders, revenue }] = await model.aggregate(
+   *   { orders: { count: '*' }, revenue: { sum: 'amount' } },
+   *   { where: { status: 'paid' } },
+   * );
+   *
+   * const perCustomer = await model.aggregate(
+   *   { revenue: { sum: 'amount' }, lastOrder: { max: 'created_at' } },
+   *   { groupBy: ['customer_id'] },
+   * ); // { customer_id: number; revenue: number; lastOrder: Date }[]
+   * ```
+   */
+  async aggregate<
+    A extends Record<string, AggregateExpression<T>>,
+    G extends EntityColumn<T> = never,
+  >(
+    aggregates: A,
+    options: { where?: WhereCondition<T>; groupBy?: G[] } = {},
+  ): Promise<(AggregateResult<T, A> & Pick<T, G>)[]> {
+    const mapper = this.mapper();
+    const groupBy = options.groupBy ?? [];
+    let qb: IQueryBuilder<any, any> = this.queryBuilderFor(options.where ?? {});
+    if (groupBy.length > 0) {
+      qb = qb.select(groupBy).groupBy(groupBy);
+    }
+
+    const numeric: string[] = [];
+    const typed: Record<string, string> = {};
+    for (const [alias, expression] of Object.entries(aggregates)) {
+      const [func, property] = Object.entries(expression ?? {})[0] ?? [];
+      switch (func) {
+        case 'count':
+          qb =
+            property === '*'
+              ? qb.useFunction('COUNT(*)', alias)
+              : qb.useFunction(
+                  `COUNT(${this.identifiers().column(mapper.columnName(property))})`,
+                  alias,
+                );
+          break;
+        case 'countDistinct':
+          qb = qb.countDistinct(property, alias);
+          break;
+        case 'sum':
+          qb = qb.sum(property, alias);
+          break;
+        case 'avg':
+          qb = qb.avg(property, alias);
+          break;
+        case 'min':
+          qb = qb.min(property, alias);
+          break;
+        case 'max':
+          qb = qb.max(property, alias);
+          break;
+        default:
+          throw new Error(
+            `Invalid aggregate '${alias}': expected one of count, countDistinct, sum, avg, min or max.`,
+          );
+      }
+      if (func === 'min' || func === 'max') {
+        typed[alias] = property;
+      } else {
+        numeric.push(alias);
+      }
+    }
+
+    const { query: sql, params } = qb.build();
+    this.logger.debug(
+      `Executing SQL: ${sql} with params: ${this.stringify(params)}`,
+    );
+
+    try {
+      const rows = await this.client.query<Record<string, any>[]>(sql, params);
+      return rows.map((row) => {
+        const result: Record<string, any> = {};
+        for (const key of groupBy) {
+          result[key] = mapper.fromColumnValue(
+            key,
+            mapper.readColumn(row, mapper.columnName(key)),
+          );
+        }
+        for (const key of Object.keys(aggregates)) {
+          const value = mapper.readColumn(row, key);
+          // DECIMAL and BIGINT results are returned as strings
+          if (numeric.includes(key)) {
+            result[key] = typeof value === 'string' ? Number(value) : value;
+          } else {
+            result[key] = mapper.fromColumnValue(typed[key], value);
+          }
+        }
+        return result as AggregateResult<T, A> & Pick<T, G>;
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error executing aggregate query on ${this.schema.getCurrentMetadata().tableMetadata!.tableName}: ${error.message}`,
+        error.stack,
+      );
+      throw new Error(
+        `Failed to execute aggregate operation: ${error.message}`,
+      );
+    }
+  }
+
   /**
    * Execute a transactional operation.
    * @param operations - The operations to execute within the transaction.
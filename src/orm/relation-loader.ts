@@ -0,0 +1,318 @@
+// src/orm/relation-loader.ts
+
+import { Logger } from '@nestjs/common';
+import { Client } from '../db/client';
+import { ConditionCompiler } from '../db/condition-compiler';
+import { IdentifierQuoter } from '../db/identifier-quoter';
+import { EntityMapper } from './entity-mapper';
+import { Model } from './model';
+import { ModelRegistry } from './model-registry';
+import { RelationResolver, ResolvedRelation } from './relation-resolver';
+import { ClassConstructor } from './types';
+
+/**
+ * The number of keys bound in one `IN (...)` list. Larger sets of keys are
+ * loaded in several queries.
+ */
+const MAX_KEYS_PER_QUERY = 1000;
+
+/**
+ * The alias under which a many-to-many query returns the source key of each
+ * related record.
+ */
+const SOURCE_KEY_ALIAS = 'relation_source_key';
+
+/**
+ * Relation paths merged by their common prefixes: `['posts', 'posts.comments']`
+ * becomes `posts -> comments`, so each relation is loaded once.
+ */
+type RelationTree = Map<string, RelationTree>;
+
+/**
+ * A related record and the key of the source record it belongs to.
+ */
+interface RelatedRecord {
+  key: any;
+  record: any;
+}
+
+/**
+ * Loads the relations of a set of records. Each relation costs one query for
+ * all records, instead of one query per record:
+ * `SELECT * FROM target WHERE key IN (...)`, or for many-to-many relations a
+ * join of the join table with the target table.
+ *
+ * Dotted paths load the relations of the related records, level by level:
+ * the rest of a path is handed to the model of the related entity, looked up
+ * in the {@link ModelRegistry}. The joining columns are resolved by a
+ * {@link RelationResolver}.
+ *
+ * @example
+ * ```ts
+ * const loader = new RelationLoader(client, modelRegistry);
+ * await loader.load(User, users, ['posts.comments.author', 'roles']);
+ * users[0].posts[0].comments[0].author; // User
+ * ```
+ */
+export class RelationLoader {
+  private readonly logger = new Logger(RelationLoader.name);
+  private readonly resolver = new RelationResolver();
+
+  constructor(
+    private readonly client: Client,
+    private readonly modelRegistry: ModelRegistry,
+  ) {}
+
+  /**
+   * Loads relations and assigns them to the records: an array for
+   * one-to-many and many-to-many relations, the related record or `null` for
+   * many-to-one relations.
+   * @param entity The entity class of the records.
+   * @param records The records.
+   * @param relations The relation properties or dotted relation paths.
+   * @throws Error if a relation is not declared on the entity, its joining
+   * columns cannot be determined, a path follows the same relation twice, or
+   * a path continues past an entity that has no registered model.
+   */
+  async load<T>(
+    entity: ClassConstructor<T>,
+    records: T[],
+    relations: string[],
+  ): Promise<void> {
+    const tree = this.parse(relations);
+    // Resolve every level first, so an invalid path fails before any query
+    this.validate(entity, tree, []);
+    await this.loadTree(entity, records, tree);
+  }
+
+  private async loadTree(
+    entity: ClassConstructor<any>,
+    records: any[],
+    tree: RelationTree,
+  ): Promise<void> {
+    for (const [property, children] of tree) {
+      const relation = this.resolver.resolve(entity, property);
+      await this.loadRelation(relation, records);
+      if (children.size === 0) {
+        continue;
+      }
+      // A record related to several source records is loaded once
+      const related = new Set<any>(
+        records.flatMap((record) => [].concat(record[property] ?? [])),
+      );
+      if (related.size > 0) {
+        await this.modelFor(relation).populate(
+          [...related],
+          this.paths(children),
+        );
+      }
+    }
+  }
+
+  private modelFor(relation: ResolvedRelation): Model<any> {
+    const model = this.modelRegistry?.getModelForEntity(relation.target);
+    if (!model) {
+      throw new Error(
+        `Cannot load the relations of '${relation.source.name}.${relation.property}': no model is registered for '${relation.target.name}'.`,
+      );
+    }
+    return model;
+  }
+
+  // The paths leading to the leaves of a tree, which imply their prefixes
+  private paths(tree: RelationTree, prefix = ''): string[] {
+    return [...tree].flatMap(([property, children]) =>
+      children.size === 0
+        ? [`${prefix}${property}`]
+        : this.paths(children, `${prefix}${property}.`),
+    );
+  }
+
+  private parse(paths: string[]): RelationTree {
+    const tree: RelationTree = new Map();
+    for (const path of paths) {
+      const properties = path.split('.');
+      if (properties.some((property) => property.trim() === '')) {
+        throw new Error(`Invalid relation path '${path}'.`);
+      }
+      let level = tree;
+      for (const property of properties) {
+        if (!level.has(property)) {
+          level.set(property, new Map());
+        }
+        level = level.get(property);
+      }
+    }
+    return tree;
+  }
+
+  // A path that follows a relation twice, or back along the relation it came
+  // through, would load records that are already loaded
+  private validate(
+    entity: ClassConstructor<any>,
+    tree: RelationTree,
+    trail: string[],
+    previous?: ResolvedRelation,
+  ): void {
+    for (const [property, children] of tree) {
+      const relation = this.resolver.resolve(entity, property);
+      const step = `${entity.name}.${property}`;
+      if (trail.includes(step) || this.isInverse(relation, previous)) {
+        throw new Error(
+          `Relation path '${[...trail, step].join(' -> ')}' is cyclic: '${step}' leads back to records already loaded.`,
+        );
+      }
+      if (children.size > 0) {
+        this.modelFor(relation);
+      }
+      this.validate(relation.target, children, [...trail, step], relation);
+    }
+  }
+
+  private isInverse(
+    relation: ResolvedRelation,
+    previous?: ResolvedRelation,
+  ): boolean {
+    return (
+      previous !== undefined &&
+      relation.source === previous.target &&
+      relation.target === previous.source &&
+      relation.sourceKey === previous.targetKey &&
+      relation.targetKey === previous.sourceKey &&
+      relation.joinTable?.table === previous.joinTable?.table
+    );
+  }
+
+  private async loadRelation(
+    relation: ResolvedRelation,
+    records: any[],
+  ): Promise<void> {
+    const keys = [
+      ...new Map(
+        records
+          .map((record) => record[relation.sourceKey])
+          .filter((key) => key !== null && key !== undefined)
+          .map((key) => [this.keyOf(key), key]),
+      ).values(),
+    ];
+
+    const groups = new Map<string, any[]>();
+    for (const { key, record } of await this.fetch(relation, keys)) {
+      const group = this.keyOf(key);
+      if (!groups.has(group)) {
+        groups.set(group, []);
+      }
+      groups.get(group).push(record);
+    }
+
+    for (const record of records) {
+      const key = record[relation.sourceKey];
+      const matches =
+        key === null || key === undefined
+          ? []
+          : (groups.get(this.keyOf(key)) ?? []);
+      record[relation.property] = relation.many
+        ? matches
+        : (matches[0] ?? null);
+    }
+  }
+
+  private async fetch(
+    relation: ResolvedRelation,
+    keys: any[],
+  ): Promise<RelatedRecord[]> {
+    const related: RelatedRecord[] = [];
+    for (let start = 0; start < keys.length; start += MAX_KEYS_PER_QUERY) {
+      const chunk = keys.slice(start, start + MAX_KEYS_PER_QUERY);
+      related.push(
+        ...(await (relation.joinTable
+          ? this.fetchThroughJoinTable(relation, chunk)
+          : this.fetchDirect(relation, chunk))),
+      );
+    }
+    return related;
+  }
+
+  private async fetchDirect(
+    relation: ResolvedRelation,
+    keys: any[],
+  ): Promise<RelatedRecord[]> {
+    const identifiers = this.identifiers();
+    const mapper = this.mapper(relation.target);
+    const compiler = new ConditionCompiler(
+      (key) => identifiers.column(mapper.columnName(key)),
+      (key, value) => mapper.toColumnValue(key, value),
+    );
+    const { sql: where, params } = compiler.compile({
+      [relation.targetKey]: keys,
+    });
+    const sql = `SELECT * FROM ${this.resolver.tableName(relation.target, identifiers)} WHERE ${where}`;
+
+    const rows = await this.query(sql, params);
+    return rows.map((row) => {
+      const record = mapper.hydrate(row);
+      return { key: record[relation.targetKey], record };
+    });
+  }
+
+  private async fetchThroughJoinTable(
+    relation: ResolvedRelation,
+    keys: any[],
+  ): Promise<RelatedRecord[]> {
+    const identifiers = this.identifiers();
+    const sourceMapper = this.mapper(relation.source);
+    const targetMapper = this.mapper(relation.target);
+    const { sourceColumn, targetColumn } = relation.joinTable;
+    const joinColumn = identifiers.column(`j.${sourceColumn}`);
+    const compiler = new ConditionCompiler(
+      () => joinColumn,
+      // The join column holds the source key, converted like it
+      (_key, value) => sourceMapper.toColumnValue(relation.sourceKey, value),
+    );
+    const { sql: where, params } = compiler.compile({
+      [relation.sourceKey]: keys,
+    });
+    const sql =
+      `SELECT ${joinColumn} AS ${identifiers.alias(SOURCE_KEY_ALIAS)}, t.* ` +
+      `FROM ${this.resolver.joinTableName(relation, identifiers)} j ` +
+      `JOIN ${this.resolver.tableName(relation.target, identifiers)} t ` +
+      `ON t.${identifiers.identifier(targetMapper.columnName(relation.targetKey))} = j.${identifiers.identifier(targetColumn)} ` +
+      `WHERE ${where}`;
+
+    const rows = await this.query(sql, params);
+    return rows.map((row) => {
+      const key = sourceMapper.fromColumnValue(
+        relation.sourceKey,
+        sourceMapper.readColumn(row, SOURCE_KEY_ALIAS),
+      );
+      const columns = Object.fromEntries(
+        Object.entries(row).filter(
+          ([name]) => name.toUpperCase() !== SOURCE_KEY_ALIAS.toUpperCase(),
+        ),
+      );
+      return { key, record: targetMapper.hydrate(columns) };
+    });
+  }
+
+  private async query(sql: string, params: any[]): Promise<any[]> {
+    this.logger.debug(`Executing SQL: ${sql} with ${params.length} keys`);
+    return this.client.query<Record<string, any>[]>(sql, params);
+  }
+
+  // Not strict: the columns come from the metadata of the related entities
+  private identifiers(): IdentifierQuoter {
+    return new IdentifierQuoter();
+  }
+
+  private mapper(entity: ClassConstructor<any>): EntityMapper<any> {
+    return new EntityMapper(
+      this.resolver.metadata(entity).tableMetadata.columns,
+      entity,
+    );
+  }
+
+  // Keys are compared as strings, as numbers may come back as strings or bigints
+  private keyOf(value: any): string {
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+}
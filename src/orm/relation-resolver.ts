@@ -0,0 +1,268 @@
+// src/orm/relation-resolver.ts
+
+import { IdentifierQuoter } from '../db/identifier-quoter';
+import { EntityMetadata } from './interfaces/entity-metadata.interfaces';
+import {
+  ManyToManyMetadata,
+  ManyToOneMetadata,
+  OneToManyMetadata,
+} from './interfaces/relations.interfaces';
+import { MetadataManager } from './metadata';
+import { ClassConstructor } from './types';
+
+/**
+ * The join table of a many-to-many relation and its two key columns.
+ */
+export interface JoinTable {
+  table: string;
+  sourceColumn: string; // References the source entity
+  targetColumn: string; // References the target entity
+}
+
+/**
+ * A relation resolved to the properties joining its two entities: records
+ * of `target` whose `targetKey` equals the `sourceKey` of a source record,
+ * directly or through a join table.
+ */
+export interface ResolvedRelation {
+  property: string;
+  source: ClassConstructor<any>;
+  target: ClassConstructor<any>;
+  sourceKey: string;
+  targetKey: string;
+  many: boolean;
+  joinTable?: JoinTable;
+}
+
+/**
+ * Resolves the relations declared on entities to their joining columns.
+ * Columns come from the relation options, then from the `@ForeignKey`
+ * declarations of the entities:
+ * - many-to-one: `joinColumn`, or the foreign key of the source referencing
+ *   the target, matched against `targetJoinColumn` or the referenced column.
+ * - one-to-many: `targetJoinColumn`, or the foreign key (or many-to-one
+ *   relation) of the target referencing the source, matched against
+ *   `sourceJoinColumn` or the primary key of the source.
+ * - many-to-many: the `joinTable` with its `joinColumn` referencing
+ *   `sourceJoinColumn` or the primary key of the source, and its
+ *   `inverseJoinColumn` referencing `targetJoinColumn` or the primary key of
+ *   the target.
+ */
+export class RelationResolver {
+  private readonly metadataManager = new MetadataManager();
+
+  /**
+   * Resolves a relation of an entity.
+   * @param entity The entity declaring the relation.
+   * @param property The relation property.
+   * @throws Error if the relation is not declared on the entity or its
+   * joining columns cannot be determined.
+   */
+  resolve(entity: ClassConstructor<any>, property: string): ResolvedRelation {
+    const { tableMetadata } = this.metadataManager.getEntityMetadata(entity);
+    const declares = (relation: { propertyKey: string | symbol }) =>
+      String(relation.propertyKey) === property;
+
+    const manyToOne = (tableMetadata.manyToOneRelations ?? []).find(declares);
+    if (manyToOne) {
+      return this.resolveManyToOne(entity, manyToOne);
+    }
+    const oneToMany = (tableMetadata.oneToManyRelations ?? []).find(declares);
+    if (oneToMany) {
+      return this.resolveOneToMany(entity, oneToMany);
+    }
+    const manyToMany = (tableMetadata.manyToManyRelations ?? []).find(declares);
+    if (manyToMany) {
+      return this.resolveManyToMany(entity, manyToMany);
+    }
+    throw new Error(
+      `Relation '${property}' is not declared on '${entity.name}'.`,
+    );
+  }
+
+  /**
+   * Returns the table of an entity as it is emitted in SQL.
+   * @param entity The entity.
+   * @param identifiers The identifier quoter.
+   */
+  tableName(
+    entity: ClassConstructor<any>,
+    identifiers: IdentifierQuoter,
+  ): string {
+    const metadata = this.metadataManager.getEntityMetadata(entity);
+    return identifiers.qualified(
+      `${this.schemaName(metadata)}.${metadata.tableMetadata.tableName}`,
+    );
+  }
+
+  /**
+   * Returns a join table as it is emitted in SQL. Unqualified names are in
+   * the schema of the entity declaring the relation.
+   * @param relation The resolved many-to-many relation.
+   * @param identifiers The identifier quoter.
+   */
+  joinTableName(
+    relation: ResolvedRelation,
+    identifiers: IdentifierQuoter,
+  ): string {
+    const { table } = relation.joinTable;
+    if (table.includes('.')) {
+      return identifiers.qualified(table);
+    }
+    const metadata = this.metadataManager.getEntityMetadata(relation.source);
+    return identifiers.qualified(`${this.schemaName(metadata)}.${table}`);
+  }
+
+  /**
+   * Returns the metadata of an entity.
+   * @param entity The entity.
+   */
+  metadata(entity: ClassConstructor<any>): EntityMetadata {
+    return this.metadataManager.getEntityMetadata(entity);
+  }
+
+  private resolveManyToOne(
+    entity: ClassConstructor<any>,
+    relation: ManyToOneMetadata,
+  ): ResolvedRelation {
+    const source = this.metadataManager.getEntityMetadata(entity);
+    const target = this.metadataManager.getEntityMetadata(relation.target);
+    const foreignKey = (source.tableMetadata.foreignKeys ?? []).find(
+      (key) => key.target === relation.target,
+    );
+
+    const joinColumn =
+      relation.joinColumn ??
+      relation.sourceJoinColumn ??
+      (foreignKey && String(foreignKey.propertyKey));
+    if (!joinColumn) {
+      throw new Error(
+        `Cannot determine the foreign key of relation '${String(relation.propertyKey)}' of '${entity.name}'. ` +
+          `Set 'joinColumn' or declare a @ForeignKey targeting '${relation.target.name}'.`,
+      );
+    }
+
+    return {
+      property: String(relation.propertyKey),
+      source: entity,
+      target: relation.target,
+      sourceKey: this.propertyOf(source, joinColumn),
+      targetKey: this.propertyOf(
+        target,
+        relation.targetJoinColumn ??
+          foreignKey?.referencedColumnNames?.[0] ??
+          this.primaryKey(relation.target, target),
+      ),
+      many: false,
+    };
+  }
+
+  private resolveOneToMany(
+    entity: ClassConstructor<any>,
+    relation: OneToManyMetadata,
+  ): ResolvedRelation {
+    const source = this.metadataManager.getEntityMetadata(entity);
+    const target = this.metadataManager.getEntityMetadata(relation.target);
+    const foreignKey = (target.tableMetadata.foreignKeys ?? []).find(
+      (key) => key.target === entity,
+    );
+    const inverse = (target.tableMetadata.manyToOneRelations ?? []).find(
+      (candidate) => candidate.target === entity,
+    );
+
+    const joinColumn =
+      relation.targetJoinColumn ??
+      (foreignKey && String(foreignKey.propertyKey)) ??
+      inverse?.joinColumn ??
+      inverse?.sourceJoinColumn;
+    if (!joinColumn) {
+      throw new Error(
+        `Cannot determine the foreign key of relation '${String(relation.propertyKey)}' of '${entity.name}'. ` +
+          `Set 'targetJoinColumn' or declare a @ForeignKey on '${relation.target.name}' targeting '${entity.name}'.`,
+      );
+    }
+
+    return {
+      property: String(relation.propertyKey),
+      source: entity,
+      target: relation.target,
+      sourceKey: this.propertyOf(
+        source,
+        relation.sourceJoinColumn ??
+          foreignKey?.referencedColumnNames?.[0] ??
+          inverse?.targetJoinColumn ??
+          this.primaryKey(entity, source),
+      ),
+      targetKey: this.propertyOf(target, joinColumn),
+      many: true,
+    };
+  }
+
+  private resolveManyToMany(
+    entity: ClassConstructor<any>,
+    relation: ManyToManyMetadata,
+  ): ResolvedRelation {
+    const property = String(relation.propertyKey);
+    const missing = (
+      ['joinTable', 'joinColumn', 'inverseJoinColumn'] as const
+    ).filter((option) => !relation[option]);
+    if (missing.length > 0) {
+      throw new Error(
+        `Many-to-many relation '${property}' of '${entity.name}' requires the ${missing
+          .map((option) => `'${option}'`)
+          .join(', ')} option${missing.length > 1 ? 's' : ''}.`,
+      );
+    }
+
+    const source = this.metadataManager.getEntityMetadata(entity);
+    const target = this.metadataManager.getEntityMetadata(relation.target);
+    return {
+      property,
+      source: entity,
+      target: relation.target,
+      sourceKey: this.propertyOf(
+        source,
+        relation.sourceJoinColumn ?? this.primaryKey(entity, source),
+      ),
+      targetKey: this.propertyOf(
+        target,
+        relation.targetJoinColumn ?? this.primaryKey(relation.target, target),
+      ),
+      many: true,
+      joinTable: {
+        table: relation.joinTable,
+        sourceColumn: relation.joinColumn,
+        targetColumn: relation.inverseJoinColumn,
+      },
+    };
+  }
+
+  private primaryKey(
+    entity: ClassConstructor<any>,
+    metadata: EntityMetadata,
+  ): string {
+    const key =
+      metadata.tableMetadata.primaryKeys?.[0]?.propertyKey ??
+      metadata.tableMetadata.columns.find((column) => column.primary)
+        ?.propertyKey;
+    if (!key) {
+      throw new Error(`Entity '${entity.name}' has no primary key.`);
+    }
+    return String(key);
+  }
+
+  // Relation options name either the property or the column
+  private propertyOf(metadata: EntityMetadata, name: string): string {
+    const column = metadata.tableMetadata.columns.find(
+      (candidate) =>
+        candidate.propertyKey === name ||
+        candidate.name?.toUpperCase() === name.toUpperCase(),
+    );
+    return column?.propertyKey ?? name;
+  }
+
+  // Tables are addressed in the schema named by the entity metadata, as in Model
+  private schemaName(metadata: EntityMetadata): string {
+    return metadata.name || 'public';
+  }
+}
@@ -0,0 +1,238 @@
+// src/orm/relation-writer.ts
+
+import { Logger } from '@nestjs/common';
+import { Client } from '../db/client';
+import { IdentifierQuoter } from '../db/identifier-quoter';
+import { BatchStatement } from '../interfaces';
+import { EntityMapper } from './entity-mapper';
+import { RelationResolver, ResolvedRelation } from './relation-resolver';
+import { ClassConstructor } from './types';
+
+/**
+ * Maintains the join-table rows of many-to-many relations. The statements of
+ * each call run as one atomic compound statement, so a failure leaves the
+ * join table unchanged. Links are added with a `MERGE` that only inserts the
+ * missing ones, so existing rows and their triggers are left alone. Its
+ * source rows cast each key to the SQL type of the key property, as Db2
+ * cannot infer the type of a parameter marker in a `VALUES` list.
+ *
+ * @example
+ * ```ts
+ * // @ManyToMany({ target: Role, joinTable: 'user_roles', joinColumn: 'user_id', inverseJoinColumn: 'role_id' })
+ * const writer = new RelationWriter(client);
+ * await writer.set(User, user, 'roles', [1, 3]);
+ * ```
+ */
+export class RelationWriter {
+  private readonly logger = new Logger(RelationWriter.name);
+  private readonly resolver = new RelationResolver();
+
+  constructor(private readonly client: Client) {}
+
+  /**
+   * Links a record to related records. Links that already exist are kept as
+   * they are, so none is duplicated.
+   * @param entity The entity class of the record.
+   * @param record The record.
+   * @param property The many-to-many relation property.
+   * @param keys The keys of the related records.
+   */
+  async add(
+    entity: ClassConstructor<any>,
+    record: any,
+    property: string,
+    keys: any[],
+  ): Promise<void> {
+    const link = this.link(entity, record, property);
+    const targets = this.distinct(keys);
+    if (targets.length > 0) {
+      await this.execute(link, [
+        link.insertMissing(targets, this.keyTypes(link.relation)),
+      ]);
+    }
+  }
+
+  /**
+   * Unlinks a record from related records.
+   * @param entity The entity class of the record.
+   * @param record The record.
+   * @param property The many-to-many relation property.
+   * @param keys The keys of the related records.
+   */
+  async remove(
+    entity: ClassConstructor<any>,
+    record: any,
+    property: string,
+    keys: any[],
+  ): Promise<void> {
+    const link = this.link(entity, record, property);
+    const targets = this.distinct(keys);
+    if (targets.length > 0) {
+      await this.execute(link, [link.delete(targets)]);
+    }
+  }
+
+  /**
+   * Replaces the related records of a record: all its links are removed and
+   * links to the given records are inserted.
+   * @param entity The entity class of the record.
+   * @param record The record.
+   * @param property The many-to-many relation property.
+   * @param keys The keys of all related records.
+   */
+  async set(
+    entity: ClassConstructor<any>,
+    record: any,
+    property: string,
+    keys: any[],
+  ): Promise<void> {
+    const link = this.link(entity, record, property);
+    const targets = this.distinct(keys);
+    await this.execute(
+      link,
+      targets.length > 0
+        ? [link.delete(), link.insert(targets)]
+        : [link.delete()],
+    );
+  }
+
+  private async execute(
+    link: JoinTableLink,
+    statements: BatchStatement[],
+  ): Promise<void> {
+    this.logger.debug(
+      `Updating join table ${link.table} with ${statements.length} statements`,
+    );
+    await this.client.batch(statements);
+  }
+
+  private link(
+    entity: ClassConstructor<any>,
+    record: any,
+    property: string,
+  ): JoinTableLink {
+    const relation = this.resolver.resolve(entity, property);
+    if (!relation.joinTable) {
+      throw new Error(
+        `Relation '${property}' of '${entity.name}' is not a many-to-many relation.`,
+      );
+    }
+    const sourceKey = record?.[relation.sourceKey];
+    if (sourceKey === null || sourceKey === undefined) {
+      throw new Error(
+        `Cannot update relation '${property}' of '${entity.name}': the instance has no '${relation.sourceKey}'.`,
+      );
+    }
+
+    const identifiers = new IdentifierQuoter(
+      this.client.getIdentifierOptions(),
+    );
+    const targetMapper = this.mapper(relation.target);
+    return new JoinTableLink(
+      relation,
+      identifiers,
+      this.resolver.joinTableName(relation, identifiers),
+      this.mapper(relation.source).toColumnValue(relation.sourceKey, sourceKey),
+      (key) => targetMapper.toColumnValue(relation.targetKey, key),
+    );
+  }
+
+  // The SQL types of the source and target keys, which the join columns share
+  private keyTypes(relation: ResolvedRelation): [string, string] {
+    return [
+      this.keyType(relation, relation.source, relation.sourceKey),
+      this.keyType(relation, relation.target, relation.targetKey),
+    ];
+  }
+
+  private keyType(
+    relation: ResolvedRelation,
+    entity: ClassConstructor<any>,
+    key: string,
+  ): string {
+    const type = this.mapper(entity).sqlType(key);
+    if (!type) {
+      throw new Error(
+        `Cannot link '${relation.source.name}.${relation.property}': the column type of '${entity.name}.${key}' is not declared.`,
+      );
+    }
+    return type;
+  }
+
+  private mapper(entity: ClassConstructor<any>): EntityMapper<any> {
+    return new EntityMapper(
+      this.resolver.metadata(entity).tableMetadata.columns,
+      entity,
+    );
+  }
+
+  private distinct(keys: any[]): any[] {
+    return [...new Map(keys.map((key) => [String(key), key])).values()];
+  }
+}
+
+/**
+ * Builds the statements on the join-table rows of one source record.
+ */
+class JoinTableLink {
+  private readonly sourceColumn: string;
+  private readonly targetColumn: string;
+
+  constructor(
+    readonly relation: ResolvedRelation,
+    identifiers: IdentifierQuoter,
+    readonly table: string,
+    private readonly sourceKey: any,
+    private readonly convertKey: (key: any) => any,
+  ) {
+    this.sourceColumn = identifiers.identifier(relation.joinTable.sourceColumn);
+    this.targetColumn = identifiers.identifier(relation.joinTable.targetColumn);
+  }
+
+  insert(keys: any[]): BatchStatement {
+    return {
+      sql: `INSERT INTO ${this.table} (${this.sourceColumn}, ${this.targetColumn}) VALUES ${keys
+        .map(() => '(?, ?)')
+        .join(', ')}`,
+      params: this.rows(keys),
+    };
+  }
+
+  // Matches the links on both columns, as the MERGE upsert of QueryBuilder does
+  insertMissing(
+    keys: any[],
+    [sourceType, targetType]: [string, string],
+  ): BatchStatement {
+    const columns = `${this.sourceColumn}, ${this.targetColumn}`;
+    const row = `(CAST(? AS ${sourceType}), CAST(? AS ${targetType}))`;
+    return {
+      sql:
+        `MERGE INTO ${this.table} AS target ` +
+        `USING (VALUES ${keys.map(() => row).join(', ')}) AS source (${columns}) ` +
+        `ON target.${this.sourceColumn} = source.${this.sourceColumn} AND target.${this.targetColumn} = source.${this.targetColumn} ` +
+        `WHEN NOT MATCHED THEN INSERT (${columns}) VALUES (source.${this.sourceColumn}, source.${this.targetColumn})`,
+      params: this.rows(keys),
+    };
+  }
+
+  // Without keys, every link of the source record is deleted
+  delete(keys: any[] = []): BatchStatement {
+    const where = `${this.sourceColumn} = ?`;
+    if (keys.length === 0) {
+      return {
+        sql: `DELETE FROM ${this.table} WHERE ${where}`,
+        params: [this.sourceKey],
+      };
+    }
+    return {
+      sql: `DELETE FROM ${this.table} WHERE ${where} AND ${this.targetColumn} IN (${keys
+        .map(() => '?')
+        .join(', ')})`,
+      params: [this.sourceKey, ...keys.map((key) => this.convertKey(key))],
+    };
+  }
+
+  private rows(keys: any[]): any[] {
+    return keys.flatMap((key) => [this.sourceKey, this.convertKey(key)]);
+  }
+}
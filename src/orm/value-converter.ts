@@ -0,0 +1,251 @@
+// src/orm/value-converter.ts
+
+import { formatDb2Date, formatDb2Timestamp } from '../utils/timestamp-format';
+import { ColumnMetadata } from './interfaces/column.interfaces';
+
+/**
+ * The largest DECIMAL precision whose values all fit in a JavaScript number
+ * without losing digits.
+ */
+const MAX_SAFE_DECIMAL_PRECISION = 15;
+
+/** Db2's precision of a DECIMAL column declared without one. */
+const DEFAULT_DECIMAL_PRECISION = 5;
+
+// 2024-01-31 10:15:30.123456 or 2024-01-31-10.15.30.123456, as Db2 returns them
+const TIMESTAMP_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[ T-](\d{2})[:.](\d{2})(?:[:.](\d{2})(?:\.(\d{1,12}))?)?)?$/;
+
+type ColumnKind =
+  | 'json'
+  | 'boolean'
+  | 'date'
+  | 'timestamp'
+  | 'bigint'
+  | 'decimal'
+  | 'number'
+  | 'binary';
+
+const KINDS: Record<string, ColumnKind> = {
+  json: 'json',
+  boolean: 'boolean',
+  bool: 'boolean',
+  date: 'date',
+  timestamp: 'timestamp',
+  datetime: 'timestamp',
+  bigint: 'bigint',
+  decimal: 'decimal',
+  numeric: 'decimal',
+  dec: 'decimal',
+  decfloat: 'decimal',
+  number: 'number',
+  smallint: 'number',
+  integer: 'number',
+  int: 'number',
+  real: 'number',
+  double: 'number',
+  float: 'number',
+  blob: 'binary',
+  binary: 'binary',
+  varbinary: 'binary',
+  buffer: 'binary',
+};
+
+/**
+ * Converts values between their JavaScript representation and the one the
+ * Db2 driver reads and writes, based on the `type`, `precision` and `scale`
+ * of the column metadata:
+ *
+ * | Column type                         | JavaScript | Stored as                    |
+ * | ----------------------------------- | ---------- | ---------------------------- |
+ * | `json`                              | any        | JSON text                    |
+ * | `boolean`                           | boolean    | `1` / `0`                    |
+ * | `date`                              | Date       | `YYYY-MM-DD`                 |
+ * | `timestamp`                         | Date       | `YYYY-MM-DD HH:MM:SS.ffffff` |
+ * | `bigint`                            | bigint     | decimal string               |
+ * | `decimal` with precision up to 15   | number     | decimal string               |
+ * | `decimal` above 15, `decfloat`      | string     | decimal string               |
+ * | `smallint`, `integer`, `double`, …  | number     | number                       |
+ * | `blob`, `binary`, `varbinary`       | Buffer     | Buffer                       |
+ *
+ * Dates and timestamps are read and written in local time, since Db2
+ * timestamps carry no time zone. Other types are passed through.
+ *
+ * A column `transformer` runs on top of the type conversion: its `to` before
+ * the value is converted for the database, its `from` after the value read is
+ * converted. NULL is passed to transformers but never to type conversions.
+ *
+ * @example
+ * ```ts
+ * const converter = new ValueConverter();
+ * converter.fromDatabase({ propertyKey: 'active', type: 'boolean' }, 1); // true
+ * converter.toDatabase({ propertyKey: 'total', type: 'decimal', precision: 31 }, '12.50'); // '12.50'
+ * ```
+ */
+export class ValueConverter {
+  /**
+   * Converts a property value to the value written to its column.
+   * @param column The column metadata.
+   * @param value The property value.
+   * @throws Error if the value cannot be represented in the column type.
+   */
+  toDatabase(column: ColumnMetadata, value: any): any {
+    const transformed = column.transformer
+      ? column.transformer.to(value)
+      : value;
+    if (transformed === null || transformed === undefined) {
+      return transformed;
+    }
+
+    switch (this.kind(column)) {
+      case 'json':
+        return JSON.stringify(transformed);
+      case 'boolean':
+        return this.toBoolean(column, transformed) ? 1 : 0;
+      case 'date':
+        return transformed instanceof Date
+          ? formatDb2Date(transformed)
+          : transformed;
+      case 'timestamp':
+        return transformed instanceof Date
+          ? formatDb2Timestamp(transformed)
+          : transformed;
+      case 'bigint':
+      case 'decimal':
+        return typeof transformed === 'number' ||
+          typeof transformed === 'bigint'
+          ? this.formatNumber(column, transformed)
+          : transformed;
+      case 'binary':
+        return transformed instanceof Uint8Array &&
+          !Buffer.isBuffer(transformed)
+          ? Buffer.from(transformed)
+          : transformed;
+      default:
+        return transformed;
+    }
+  }
+
+  /**
+   * Converts a value read from a column to its property value.
+   * @param column The column metadata.
+   * @param value The value returned by the driver.
+   * @throws Error if the value does not match the column type, such as
+   * invalid JSON in a JSON column.
+   */
+  fromDatabase(column: ColumnMetadata, value: any): any {
+    const converted =
+      value === null || value === undefined
+        ? value
+        : this.convertFromDatabase(column, value);
+    return column.transformer ? column.transformer.from(converted) : converted;
+  }
+
+  private convertFromDatabase(column: ColumnMetadata, value: any): any {
+    switch (this.kind(column)) {
+      case 'json':
+        return typeof value === 'string'
+          ? this.parseJson(column, value)
+          : value;
+      case 'boolean':
+        return this.toBoolean(column, value);
+      case 'date':
+      case 'timestamp':
+        return value instanceof Date ? value : this.parseDate(column, value);
+      case 'bigint':
+        return typeof value === 'bigint' ? value : BigInt(value);
+      case 'decimal':
+        return this.isSafeDecimal(column) ? Number(value) : String(value);
+      case 'number':
+        return typeof value === 'number' ? value : Number(value);
+      case 'binary':
+        return typeof value === 'string' ? Buffer.from(value, 'binary') : value;
+      default:
+        return value;
+    }
+  }
+
+  private kind(column: ColumnMetadata): ColumnKind | undefined {
+    const type = /^\s*([a-z]+)/i.exec(column.type ?? '');
+    return type ? KINDS[type[1].toLowerCase()] : undefined;
+  }
+
+  private toBoolean(column: ColumnMetadata, value: any): boolean {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    const normalized = String(value).trim().toLowerCase();
+    if (['1', 'true', 't', 'y', 'yes'].includes(normalized)) {
+      return true;
+    }
+    if (['0', 'false', 'f', 'n', 'no'].includes(normalized)) {
+      return false;
+    }
+    throw new Error(
+      `Column '${this.columnLabel(column)}' expects a boolean, got '${value}'.`,
+    );
+  }
+
+  private parseJson(column: ColumnMetadata, value: string): any {
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      throw new Error(
+        `Column '${this.columnLabel(column)}' does not contain valid JSON: ${error.message}`,
+      );
+    }
+  }
+
+  private parseDate(column: ColumnMetadata, value: any): Date {
+    const match = TIMESTAMP_PATTERN.exec(String(value).trim());
+    if (!match) {
+      const parsed = new Date(value);
+      if (isNaN(parsed.getTime())) {
+        throw new Error(
+          `Column '${this.columnLabel(column)}' does not contain a valid date: '${value}'.`,
+        );
+      }
+      return parsed;
+    }
+    const [, year, month, day, hours, minutes, seconds, fraction] = match;
+    return new Date(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours ?? 0),
+      Number(minutes ?? 0),
+      Number(seconds ?? 0),
+      // JavaScript dates stop at milliseconds
+      Number((fraction ?? '').padEnd(3, '0').slice(0, 3)),
+    );
+  }
+
+  private formatNumber(column: ColumnMetadata, value: number | bigint): string {
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error(
+        `Column '${this.columnLabel(column)}' cannot store ${value}.`,
+      );
+    }
+    if (typeof value === 'number' && column.scale !== undefined) {
+      return value.toFixed(column.scale);
+    }
+    return value.toString();
+  }
+
+  private isSafeDecimal(column: ColumnMetadata): boolean {
+    const type = column.type.toLowerCase();
+    if (type.startsWith('decfloat')) {
+      return false;
+    }
+    // The precision may also be part of the type, as in DECIMAL(31, 2)
+    const declared = /\(\s*(\d+)/.exec(type);
+    const precision =
+      column.precision ??
+      (declared ? Number(declared[1]) : DEFAULT_DECIMAL_PRECISION);
+    return precision <= MAX_SAFE_DECIMAL_PRECISION;
+  }
+
+  private columnLabel(column: ColumnMetadata): string {
+    return column.name ?? column.propertyKey;
+  }
+}
@@ -1,5 +1,12 @@
 import { Logger } from '../utils';
 import { IMigrationService } from '../interfaces';
+import { TemporalMetadata, TemporalTableState } from '../orm/interfaces';
+
+/**
+ * The SQL type of columns declared as `json`. Db2 has no JSON data type; the
+ * JSON functions read documents stored as character data.
+ */
+const JSON_COLUMN_TYPE = 'CLOB(1M)';
 
 export class MigrationService implements IMigrationService {
   private readonly logger = new Logger(MigrationService.name);
@@ -20,7 +27,9 @@ export class MigrationService implements IMigrationService {
     let sql = `CREATE TABLE IF NOT EXISTS "${tableName}" (\n`;
     const columnDefs = Object.entries(columns).map(
       ([columnName, columnType]) => {
-        let columnDef = `"${columnName}" ${columnType}`;
+        const sqlType =
+          columnType?.toLowerCase() === 'json' ? JSON_COLUMN_TYPE : columnType;
+        let columnDef = `"${columnName}" ${sqlType}`;
         if (options?.[`${columnName}_nullable`] === 'false') {
           columnDef += ' NOT NULL';
         }
@@ -49,6 +58,98 @@ export class MigrationService implements IMigrationService {
     return sql;
   }
 
+  /**
+   * Generates the statements that turn a table into a system-period temporal
+   * table: the implicitly hidden period columns, the SYSTEM_TIME period, a
+   * history table with the same columns, and versioning. Parts the table
+   * already has are left out, so the statements can be applied again. Each
+   * statement must be executed on its own.
+   * @param tableName The table to version.
+   * @param temporal The history table and period column names.
+   * @param state The parts of versioning the table already has, as read with
+   * {@link generateTemporalStateSQL}. By default, none.
+   */
+  public generateTemporalTableSQL(
+    tableName: string,
+    temporal: TemporalMetadata,
+    state: Partial<TemporalTableState> = {},
+  ): string[] {
+    const {
+      historyTable,
+      rowBeginColumn,
+      rowEndColumn,
+      transactionStartColumn,
+    } = temporal;
+    const statements: string[] = [];
+    if (!state.rowBeginColumn) {
+      statements.push(
+        `ALTER TABLE "${tableName}" ADD COLUMN "${rowBeginColumn}" TIMESTAMP(12) NOT NULL GENERATED ALWAYS AS ROW BEGIN IMPLICITLY HIDDEN`,
+      );
+    }
+    if (!state.rowEndColumn) {
+      statements.push(
+        `ALTER TABLE "${tableName}" ADD COLUMN "${rowEndColumn}" TIMESTAMP(12) NOT NULL GENERATED ALWAYS AS ROW END IMPLICITLY HIDDEN`,
+      );
+    }
+    if (!state.transactionStartColumn) {
+      statements.push(
+        `ALTER TABLE "${tableName}" ADD COLUMN "${transactionStartColumn}" TIMESTAMP(12) GENERATED ALWAYS AS TRANSACTION START ID IMPLICITLY HIDDEN`,
+      );
+    }
+    if (!state.period) {
+      statements.push(
+        `ALTER TABLE "${tableName}" ADD PERIOD SYSTEM_TIME ("${rowBeginColumn}", "${rowEndColumn}")`,
+      );
+    }
+    if (!state.historyTable) {
+      statements.push(
+        `CREATE TABLE "${historyTable}" LIKE "${tableName}" WITH RESTRICT ON DROP`,
+      );
+    }
+    if (!state.versioning) {
+      statements.push(
+        `ALTER TABLE "${tableName}" ADD VERSIONING USE HISTORY TABLE "${historyTable}"`,
+      );
+    }
+
+    this.logger.info(
+      `Generated system-period versioning SQL for ${tableName}: \n${statements.join(';\n')}`,
+    );
+    return statements;
+  }
+
+  /**
+   * Generates a query reading which parts of system-period versioning a table
+   * in the current schema already has from the Db2 catalog. It returns one row
+   * with a count per {@link TemporalTableState} property, and takes the table
+   * name and the {@link TemporalMetadata} properties as named parameters.
+   *
+   * @example
+   * ```ts
+   * const [row] = await client.query(
+   *   migrationService.generateTemporalStateSQL(),
+   *   { tableName: 'orders', ...temporal },
+   * );
+   * ```
+   */
+  public generateTemporalStateSQL(): string {
+    const column = (name: string) =>
+      `(SELECT COUNT(*) FROM SYSCAT.COLUMNS WHERE TABSCHEMA = CURRENT SCHEMA AND TABNAME = :tableName AND COLNAME = :${name}) AS "${name}"`;
+    return [
+      'SELECT',
+      [
+        column('rowBeginColumn'),
+        column('rowEndColumn'),
+        column('transactionStartColumn'),
+        `(SELECT COUNT(*) FROM SYSCAT.PERIODS WHERE TABSCHEMA = CURRENT SCHEMA AND TABNAME = :tableName AND PERIODNAME = 'SYSTEM_TIME') AS "period"`,
+        `(SELECT COUNT(*) FROM SYSCAT.TABLES WHERE TABSCHEMA = CURRENT SCHEMA AND TABNAME = :historyTable) AS "historyTable"`,
+        // The catalog names the history table of a period once versioning is enabled
+        `(SELECT COUNT(*) FROM SYSCAT.PERIODS WHERE TABSCHEMA = CURRENT SCHEMA AND TABNAME = :tableName AND PERIODNAME = 'SYSTEM_TIME' AND HISTORYTABNAME IS NOT NULL) AS "versioning"`,
+      ].join(',\n'),
+      'FROM SYSIBM.SYSDUMMY1',
+    ].join('\n');
+  }
+
   public generateCreateViewSQL(
     viewName: string,
     viewSQL: string,
@@ -1,2 +1,5 @@
 export * from './logger';
 export * from './buildConnectionString';
+export * from './named-parameters';
+export * from './sql-formatter';
+export * from './timestamp-format';
@@ -0,0 +1,151 @@
+// src/utils/named-parameters.ts
+
+/**
+ * A statement with positional `?` markers and the values to bind, in order.
+ */
+export interface PositionalStatement {
+  sql: string;
+  params: any[];
+}
+
+const NAME_START = /[A-Za-z_]/;
+const NAME_PART = /[A-Za-z0-9_]/;
+
+interface NamedMarker {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds the parameter markers in a statement, skipping string literals,
+ * delimited identifiers and comments.
+ * @returns The `:name` markers in order of appearance, and whether the
+ * statement also contains positional `?` markers.
+ */
+function scanMarkers(sql: string): {
+  named: NamedMarker[];
+  positional: boolean;
+} {
+  const named: NamedMarker[] = [];
+  let positional = false;
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === "'" || char === '"') {
+      // Quotes are escaped by doubling them, so the scan simply resumes
+      // after the next quote of the same kind.
+      const close = sql.indexOf(char, i + 1);
+      i = close === -1 ? sql.length : close + 1;
+    } else if (char === '-' && next === '-') {
+      const close = sql.indexOf('\n', i + 2);
+      i = close === -1 ? sql.length : close + 1;
+    } else if (char === '/' && next === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      i = close === -1 ? sql.length : close + 2;
+    } else if (
+      char === ':' &&
+      next !== undefined &&
+      NAME_START.test(next) &&
+      (i === 0 || !/[\w:]/.test(sql[i - 1]))
+    ) {
+      let end = i + 2;
+      while (end < sql.length && NAME_PART.test(sql[end])) {
+        end++;
+      }
+      named.push({ name: sql.slice(i + 1, end), start: i, end });
+      i = end;
+    } else {
+      positional = positional || char === '?';
+      i++;
+    }
+  }
+
+  return { named, positional };
+}
+
+/**
+ * Checks whether a statement uses `:name` parameter markers.
+ * @param sql The SQL statement.
+ */
+export function hasNamedParameters(sql: string): boolean {
+  return scanMarkers(sql).named.length > 0;
+}
+
+/**
+ * Rewrites `:name` markers to positional `?` markers, with the values in the
+ * order the markers appear. A name can be used more than once. An array value
+ * expands to a list of markers, for use in `IN (:ids)`.
+ *
+ * @example
+ * ```ts
+ * compileNamedParameters(
+ *   'SELECT * FROM orders WHERE user_id = :userId AND status IN (:statuses) OR approver_id = :userId',
+ *   { userId: 7, statuses: ['open', 'held'] },
+ * );
+ * // { sql: '... user_id = ? AND status IN (?, ?) OR approver_id = ?', params: [7, 'open', 'held', 7] }
+ * ```
+ *
+ * @param sql The SQL statement with `:name` markers.
+ * @param values The values by name.
+ * @throws Error if a marker has no value, or if the statement uses `?` markers.
+ */
+export function compileNamedParameters(
+  sql: string,
+  values: Record<string, any>,
+): PositionalStatement {
+  const { named: markers, positional: hasPositional } = scanMarkers(sql);
+  if (markers.length === 0 && !hasPositional) {
+    return { sql, params: [] };
+  }
+  if (hasPositional) {
+    throw new Error(
+      'Named parameters require :name markers; the statement uses positional (?) markers.',
+    );
+  }
+
+  let positional = '';
+  let cursor = 0;
+  const params: any[] = [];
+
+  for (const { name, start, end } of markers) {
+    if (!Object.prototype.hasOwnProperty.call(values, name)) {
+      throw new Error(`Missing value for named parameter ':${name}'.`);
+    }
+    const value = values[name];
+    let placeholder = '?';
+    if (Array.isArray(value)) {
+      if (value.length === 0) {
+        throw new Error(`Named parameter ':${name}' is an empty list.`);
+      }
+      placeholder = value.map(() => '?').join(', ');
+      params.push(...value);
+    } else {
+      params.push(value);
+    }
+
+    positional += sql.slice(cursor, start) + placeholder;
+    cursor = end;
+  }
+
+  return { sql: positional + sql.slice(cursor), params };
+}
+
+/**
+ * Normalizes the parameters of a statement: positional arrays are passed
+ * through, and objects are treated as named parameters.
+ * @param sql The SQL statement.
+ * @param params Positional values, or values by name.
+ */
+export function toPositionalStatement(
+  sql: string,
+  params: any[] | Record<string, any> = [],
+): PositionalStatement {
+  if (Array.isArray(params)) {
+    return { sql, params };
+  }
+  return compileNamedParameters(sql, params ?? {});
+}
@@ -0,0 +1,238 @@
+// src/utils/sql-formatter.ts
+
+import { SqlFormatOptions } from '../interfaces/db2.interface';
+import { formatDb2Timestamp } from './timestamp-format';
+
+/**
+ * Keywords that start a clause. In pretty output each starts a new line.
+ * Longer alternatives come first so `UNION ALL` is not matched as `UNION`.
+ */
+const CLAUSE_KEYWORDS = [
+  'WITH',
+  'SELECT',
+  'FROM',
+  'WHERE',
+  'GROUP BY',
+  'HAVING',
+  'ORDER BY',
+  'OFFSET',
+  'FETCH FIRST',
+  'FETCH NEXT',
+  'UNION ALL',
+  'UNION',
+  'INTERSECT',
+  'EXCEPT',
+  'INNER JOIN',
+  'LEFT OUTER JOIN',
+  'LEFT JOIN',
+  'RIGHT OUTER JOIN',
+  'RIGHT JOIN',
+  'FULL OUTER JOIN',
+  'FULL JOIN',
+  'CROSS JOIN',
+  'JOIN',
+  'SET',
+  'VALUES',
+  'USING',
+  'WHEN MATCHED',
+  'WHEN NOT MATCHED',
+  'FOR UPDATE',
+  'FOR READ ONLY',
+  'OPTIMIZE FOR',
+  'SKIP LOCKED DATA',
+];
+
+const CLAUSE_PATTERN = new RegExp(
+  `\\b(?:${CLAUSE_KEYWORDS.map((keyword) => keyword.replace(/ /g, '\\s+')).join('|')})\\b`,
+  'gi',
+);
+
+const SUBQUERY_START = /^\(\s*(?:SELECT|WITH)\b/i;
+const INDENT = '  ';
+
+/**
+ * Renders a statement for logs and tests.
+ *
+ * @example
+ * ```ts
+ * formatSql('SELECT id FROM users WHERE name = ? AND active = ?', ["O'Brien", true], {
+ *   pretty: true,
+ *   inlineParams: true,
+ * });
+ * // SELECT id
+ * // FROM users
+ * // WHERE name = 'O''Brien' AND active = TRUE
+ * ```
+ *
+ * @param sql The statement with `?` markers.
+ * @param params The values bound to the markers.
+ * @param options `pretty` starts each clause on a new line and indents
+ * subqueries; `inlineParams` replaces the markers with SQL literals.
+ * @throws Error with `inlineParams` if the number of markers and values differ.
+ */
+export function formatSql(
+  sql: string,
+  params: any[] = [],
+  options: SqlFormatOptions = {},
+): string {
+  let formatted = options.pretty ? prettyPrint(sql) : sql;
+  if (options.inlineParams) {
+    formatted = inlineParameters(formatted, params);
+  }
+  return formatted;
+}
+
+/**
+ * Replaces string literals, delimited identifiers and comments with spaces,
+ * so the structure of a statement can be scanned by position.
+ */
+function maskLiterals(sql: string): string {
+  let masked = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+    let end = -1;
+
+    if (char === "'" || char === '"') {
+      const close = sql.indexOf(char, i + 1);
+      end = close === -1 ? sql.length : close + 1;
+    } else if (char === '-' && next === '-') {
+      const close = sql.indexOf('\n', i + 2);
+      end = close === -1 ? sql.length : close;
+    } else if (char === '/' && next === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      end = close === -1 ? sql.length : close + 2;
+    }
+
+    if (end === -1) {
+      masked += char;
+      i++;
+    } else {
+      masked += ' '.repeat(end - i);
+      i = end;
+    }
+  }
+
+  return masked;
+}
+
+/**
+ * Starts each clause on a new line. Subqueries are indented; clauses inside
+ * other parentheses, such as the ORDER BY of an OVER clause, stay inline.
+ */
+function prettyPrint(sql: string): string {
+  const masked = maskLiterals(sql);
+  const clauseStarts = new Set<number>();
+  for (const match of masked.matchAll(CLAUSE_PATTERN)) {
+    clauseStarts.add(match.index);
+  }
+
+  // Line breaks by position, with the indentation depth of the new line
+  const breaks = new Map<number, number>();
+  const parentheses: boolean[] = []; // Whether each open parenthesis starts a subquery
+  const breakable = () => parentheses.every(Boolean);
+
+  for (let i = 0; i < masked.length; i++) {
+    const depth = parentheses.length;
+    if (clauseStarts.has(i) && i > 0 && breakable()) {
+      breaks.set(i, depth);
+    }
+    if (masked[i] === '(') {
+      const subquery = SUBQUERY_START.test(masked.slice(i));
+      if (subquery && breakable()) {
+        breaks.set(i + 1, depth + 1);
+      }
+      parentheses.push(subquery);
+    } else if (masked[i] === ')') {
+      const subquery = parentheses.pop();
+      if (subquery && breakable()) {
+        breaks.set(i, parentheses.length);
+      }
+    }
+  }
+
+  let formatted = '';
+  let cursor = 0;
+  for (const [position, depth] of [...breaks].sort(([a], [b]) => a - b)) {
+    if (position < cursor) {
+      continue;
+    }
+    const text = sql.slice(cursor, position).trimEnd();
+    // A clause directly after the opening parenthesis of a subquery is
+    // already on its own line.
+    if (text.length > 0 || formatted.length === 0) {
+      formatted += `${text}\n${INDENT.repeat(depth)}`;
+    }
+    cursor = position;
+    while (cursor < sql.length && /\s/.test(sql[cursor])) {
+      cursor++;
+    }
+  }
+
+  return formatted + sql.slice(cursor);
+}
+
+/**
+ * Replaces the `?` markers of a statement with SQL literals.
+ */
+function inlineParameters(sql: string, params: any[]): string {
+  const masked = maskLiterals(sql);
+  let inlined = '';
+  let cursor = 0;
+  let index = 0;
+
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] !== '?') {
+      continue;
+    }
+    if (index >= params.length) {
+      throw new Error(
+        `Cannot inline parameters: the statement has more markers than the ${params.length} parameters given.`,
+      );
+    }
+    inlined += sql.slice(cursor, i) + toSqlLiteral(params[index++]);
+    cursor = i + 1;
+  }
+
+  if (index !== params.length) {
+    throw new Error(
+      `Cannot inline parameters: the statement has ${index} markers but ${params.length} parameters were given.`,
+    );
+  }
+  return inlined + sql.slice(cursor);
+}
+
+/**
+ * Renders a value as a SQL literal, escaping quotes in strings.
+ * @param value A string, number, bigint, boolean, Date, Buffer, null, or an
+ * object, which is rendered as JSON text.
+ * @throws Error for non-finite numbers.
+ */
+export function toSqlLiteral(value: any): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot inline the non-finite number ${value}.`);
+    }
+    return String(value);
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  if (value instanceof Date) {
+    // In local time, as the value converter binds it
+    return `TIMESTAMP '${formatDb2Timestamp(value)}'`;
+  }
+  if (Buffer.isBuffer(value)) {
+    return `BX'${value.toString('hex').toUpperCase()}'`;
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,30 @@
+// src/utils/timestamp-format.ts
+
+/**
+ * Formats a date as a Db2 date string, `YYYY-MM-DD`, in local time.
+ * @param date The date.
+ */
+export function formatDb2Date(date: Date): string {
+  return [
+    date.getFullYear().toString().padStart(4, '0'),
+    pad(date.getMonth() + 1),
+    pad(date.getDate()),
+  ].join('-');
+}
+
+/**
+ * Formats a date as a Db2 timestamp string, `YYYY-MM-DD HH:MM:SS.ffffff`, in
+ * local time, since Db2 timestamps carry no time zone.
+ * @param date The date.
+ */
+export function formatDb2Timestamp(date: Date): string {
+  const time = [date.getHours(), date.getMinutes(), date.getSeconds()]
+    .map((part) => pad(part))
+    .join(':');
+  const fraction = date.getMilliseconds().toString().padStart(3, '0');
+  return `${formatDb2Date(date)} ${time}.${fraction}000`;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
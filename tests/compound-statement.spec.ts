@@ -0,0 +1,113 @@
+import { Client } from '../src/db/client';
+import { buildCompoundStatement } from '../src/db/compound-statement';
+import { QueryBuilder } from '../src/db/query-builder';
+import { createSqlTag } from '../src/db/sql-template';
+
+describe('buildCompoundStatement', () => {
+  const client: any = {
+    getIdentifierOptions: () => ({}),
+    getPaginationOptions: () => ({}),
+  };
+
+  it('wraps DML statements in BEGIN ATOMIC ... END with their parameters in order', () => {
+    expect(
+      buildCompoundStatement([
+        {
+          sql: 'INSERT INTO orders (id, total) VALUES (?, ?);',
+          params: [1, 25],
+        },
+        {
+          sql: 'UPDATE stock SET qty = qty - :qty WHERE sku = :sku',
+          params: { sku: 'A1', qty: 2 },
+        },
+        { sql: '  DELETE FROM carts WHERE id = 3  ' },
+      ]),
+    ).toEqual({
+      sql: [
+        'BEGIN ATOMIC',
+        '  INSERT INTO orders (id, total) VALUES (?, ?);',
+        '  UPDATE stock SET qty = qty - ? WHERE sku = ?;',
+        '  DELETE FROM carts WHERE id = 3;',
+        'END',
+      ].join('\n'),
+      params: [1, 25, 2, 'A1'],
+    });
+  });
+
+  it('accepts query builders and sql tag fragments', () => {
+    const sql = createSqlTag(client);
+    expect(
+      buildCompoundStatement([
+        new QueryBuilder('order_items', client).insertInto(
+          'order_items',
+          ['order_id', 'sku'],
+          [
+            [1, 'A1'],
+            [1, 'B2'],
+          ],
+        ),
+        sql`MERGE INTO totals AS t USING (VALUES (${1}, ${25})) AS s (id, total) ON t.id = s.id WHEN NOT MATCHED THEN INSERT (id, total) VALUES (s.id, s.total)`,
+        new QueryBuilder('carts', client).deleteFrom('carts').where({ id: 9 }),
+      ]),
+    ).toEqual({
+      sql: [
+        'BEGIN ATOMIC',
+        '  INSERT INTO order_items (order_id, sku) VALUES (?, ?), (?, ?);',
+        '  MERGE INTO totals AS t USING (VALUES (?, ?)) AS s (id, total) ON t.id = s.id WHEN NOT MATCHED THEN INSERT (id, total) VALUES (s.id, s.total);',
+        '  DELETE FROM carts WHERE id = ?;',
+        'END',
+      ].join('\n'),
+      params: [1, 'A1', 1, 'B2', 1, 25, 9],
+    });
+  });
+
+  it('rejects empty batches, queries and statements without SQL', () => {
+    expect(() => buildCompoundStatement([])).toThrow(
+      'A batch requires at least one statement.',
+    );
+    expect(() =>
+      buildCompoundStatement([
+        { sql: 'INSERT INTO t (a) VALUES (1)' },
+        { sql: 'SELECT * FROM t' },
+      ]),
+    ).toThrow(
+      'Batch statement 2 is not an INSERT, UPDATE, DELETE or MERGE statement.',
+    );
+    expect(() => buildCompoundStatement([{ sql: undefined } as any])).toThrow(
+      'A batch statement requires a SQL string.',
+    );
+  });
+
+  it('runs client.batch and QueryBuilder.batch as one query', async () => {
+    const query = jest.fn().mockResolvedValue([]);
+    const batchClient: any = {
+      ...client,
+      query,
+      logger: { info: () => undefined },
+      batch: Client.prototype.batch,
+    };
+
+    await new QueryBuilder('orders', batchClient)
+      .insertInto('orders', ['id'], [[1]])
+      .batch(
+        [
+          new QueryBuilder('carts', batchClient)
+            .deleteFrom('carts')
+            .where({ id: 2 }),
+        ],
+        500,
+      );
+
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(query).toHaveBeenCalledWith(
+      [
+        'BEGIN ATOMIC',
+        '  INSERT INTO orders (id) VALUES (?);',
+        '  DELETE FROM carts WHERE id = ?;',
+        'END',
+      ].join('\n'),
+      [1, 2],
+      500,
+    );
+  });
+});
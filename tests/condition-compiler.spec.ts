@@ -0,0 +1,173 @@
+import { ConditionCompiler } from '../src/db/condition-compiler';
+
+describe('ConditionCompiler', () => {
+  const compiler = new ConditionCompiler();
+
+  it('compiles values to equality and arrays to IN', () => {
+    expect(compiler.compile({ status: 'active' })).toEqual({
+      sql: 'status = ?',
+      params: ['active'],
+    });
+    expect(compiler.compile({ id: [1, 2, 3] })).toEqual({
+      sql: 'id IN (?, ?, ?)',
+      params: [1, 2, 3],
+    });
+  });
+
+  it('combines several columns with AND in parentheses', () => {
+    expect(
+      compiler.compile({ age: { gte: 18 }, status: ['active', 'pending'] }),
+    ).toEqual({
+      sql: '(age >= ? AND status IN (?, ?))',
+      params: [18, 'active', 'pending'],
+    });
+  });
+
+  it.each([
+    ['eq', 'score = ?'],
+    ['ne', 'score <> ?'],
+    ['gt', 'score > ?'],
+    ['gte', 'score >= ?'],
+    ['lt', 'score < ?'],
+    ['lte', 'score <= ?'],
+  ])('compiles the %s operator', (operator, sql) => {
+    expect(compiler.compile({ score: { [operator]: 5 } })).toEqual({
+      sql,
+      params: [5],
+    });
+  });
+
+  it('compiles between, in, like and several operators on one column', () => {
+    expect(compiler.compile({ total: { between: [10, 20] } })).toEqual({
+      sql: 'total BETWEEN ? AND ?',
+      params: [10, 20],
+    });
+    expect(compiler.compile({ id: { in: [7] } })).toEqual({
+      sql: 'id IN (?)',
+      params: [7],
+    });
+    expect(compiler.compile({ name: { like: 'Jo%' } })).toEqual({
+      sql: 'name LIKE ?',
+      params: ['Jo%'],
+    });
+    expect(compiler.compile({ age: { gt: 18, lt: 65 } })).toEqual({
+      sql: '(age > ? AND age < ?)',
+      params: [18, 65],
+    });
+  });
+
+  describe('NULL handling', () => {
+    it('compiles null to IS NULL', () => {
+      expect(compiler.compile({ deleted_at: null })).toEqual({
+        sql: 'deleted_at IS NULL',
+        params: [],
+      });
+    });
+
+    it('compiles eq and ne with null to IS NULL and IS NOT NULL', () => {
+      expect(compiler.compile({ deleted_at: { eq: null } })).toEqual({
+        sql: 'deleted_at IS NULL',
+        params: [],
+      });
+      expect(compiler.compile({ deleted_at: { ne: null } })).toEqual({
+        sql: 'deleted_at IS NOT NULL',
+        params: [],
+      });
+    });
+
+    it('compiles isNull', () => {
+      expect(compiler.compile({ deleted_at: { isNull: true } })).toEqual({
+        sql: 'deleted_at IS NULL',
+        params: [],
+      });
+      expect(compiler.compile({ deleted_at: { isNull: false } })).toEqual({
+        sql: 'deleted_at IS NOT NULL',
+        params: [],
+      });
+    });
+
+    it('skips undefined values and operands', () => {
+      expect(compiler.compile({ a: undefined, b: { gt: undefined } })).toEqual({
+        sql: '',
+        params: [],
+      });
+      expect(compiler.compile({})).toEqual({ sql: '', params: [] });
+    });
+  });
+
+  it('compiles an empty IN list to a condition that matches nothing', () => {
+    expect(compiler.compile({ id: [] })).toEqual({ sql: '1 = 0', params: [] });
+    expect(compiler.compile({ id: { in: [] } })).toEqual({
+      sql: '1 = 0',
+      params: [],
+    });
+  });
+
+  it('nests $and and $or groups', () => {
+    expect(
+      compiler.compile({
+        active: true,
+        $or: [{ role: 'admin' }, { $and: [{ role: 'editor' }, { age: null }] }],
+      }),
+    ).toEqual({
+      sql: '(active = ? AND (role = ? OR (role = ? AND age IS NULL)))',
+      params: [true, 'admin', 'editor'],
+    });
+  });
+
+  it('compares dates and buffers as values', () => {
+    const date = new Date(2024, 0, 1);
+    const buffer = Buffer.from('ab');
+    expect(compiler.compile({ created_at: date, hash: buffer })).toEqual({
+      sql: '(created_at = ? AND hash = ?)',
+      params: [date, buffer],
+    });
+  });
+
+  it('compares plain objects without operator keys as values', () => {
+    const json = new ConditionCompiler(undefined, (_key, value) =>
+      JSON.stringify(value),
+    );
+    expect(json.compile({ settings: { theme: 'dark' } })).toEqual({
+      sql: 'settings = ?',
+      params: ['{"theme":"dark"}'],
+    });
+    expect(json.compile({ settings: { ne: { theme: 'dark' } } })).toEqual({
+      sql: 'settings <> ?',
+      params: ['{"theme":"dark"}'],
+    });
+  });
+
+  it('rejects unknown operators and malformed operands', () => {
+    expect(() => compiler.compile({ age: { gt: 1, over: 3 } } as any)).toThrow(
+      "Unknown condition operator 'over' for column 'age'.",
+    );
+    expect(() => compiler.compile({ age: { between: [1] } } as any)).toThrow(
+      "'between' on column 'age' expects a [from, to] pair.",
+    );
+    expect(() => compiler.compile({ age: { in: 3 } } as any)).toThrow(
+      "'in' on column 'age' expects an array.",
+    );
+    expect(() => compiler.compile({ $or: {} } as any)).toThrow(
+      "'$or' expects an array of conditions.",
+    );
+  });
+
+  it('resolves columns and converts compared values, but not like patterns', () => {
+    const mapped = new ConditionCompiler(
+      (key) => (key === 'createdAt' ? 'created_at' : key),
+      (_key, value) => (typeof value === 'boolean' ? (value ? 1 : 0) : value),
+    );
+    expect(
+      mapped.compile({
+        createdAt: { gte: 'x' },
+        active: [true, false],
+        flag: { between: [false, true] },
+        name: { like: 'true' },
+      }),
+    ).toEqual({
+      sql: '(created_at >= ? AND active IN (?, ?) AND flag BETWEEN ? AND ? AND name LIKE ?)',
+      params: ['x', 1, 0, 0, 1, 'true'],
+    });
+  });
+});
@@ -1,11 +1,66 @@
 /**
  * This is a test suite for the Db2Client class.
- * There are currently no tests for the Db2Client class.
- * This suite is a placeholder for future tests.
+ * Methods are run on an instance without a pool, with the connection stubbed.
  */
 
+import { Client } from '../src/db/client';
+
 describe('Db2Client', () => {
   it('should have tests', () => {
     expect(true).toBe(true);
   });
+
+  describe('stream', () => {
+    const streamingClient = (fetch: (done: Function) => void) => {
+      const events: string[] = [];
+      const result = {
+        fetch,
+        close: (done: Function) => {
+          events.push('close');
+          done();
+        },
+      };
+      const client = Object.assign(Object.create(Client.prototype), {
+        config: { fetchSize: 2, queryTimeout: 20 },
+        logger: { info: () => undefined, error: () => undefined },
+        getConnection: async () => ({
+          queryResult: (_sql: string, _params: any[], done: Function) =>
+            done(null, result),
+        }),
+        closeConnection: async () => {
+          events.push('release');
+        },
+      });
+      return { client: client as Client, events };
+    };
+
+    it('yields the rows in batches and closes the result set', async () => {
+      const rows = [{ id: 1 }, { id: 2 }, { id: 3 }, null];
+      const { client, events } = streamingClient((done) =>
+        done(null, rows.shift()),
+      );
+      const streamed: any[] = [];
+      for await (const row of client.stream('SELECT id FROM t')) {
+        streamed.push(row);
+      }
+      expect(streamed).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(events).toEqual(['close', 'release']);
+    });
+
+    it('closes the result set after a timed-out fetch has returned', async () => {
+      let respond: Function | undefined;
+      const { client, events } = streamingClient((done) => {
+        respond = () => {
+          events.push('fetched');
+          done(null, { id: 1 });
+        };
+      });
+      const streaming = client.stream('SELECT id FROM t').next();
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      expect(events).toEqual([]);
+      respond!();
+      await expect(streaming).rejects.toThrow('Query execution timed out');
+      expect(events).toEqual(['fetched', 'close', 'release']);
+    });
+  });
 });
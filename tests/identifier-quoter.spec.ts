@@ -0,0 +1,154 @@
+import { IdentifierQuoter } from '../src/db/identifier-quoter';
+import { QueryBuilder } from '../src/db/query-builder';
+import { Db2InvalidIdentifierError } from '../src/errors';
+
+describe('IdentifierQuoter', () => {
+  const quoter = new IdentifierQuoter();
+
+  it('emits ordinary identifiers as written', () => {
+    expect(quoter.identifier('created_at')).toBe('created_at');
+    expect(quoter.qualified('app.users')).toBe('app.users');
+    expect(quoter.column('u.name')).toBe('u.name');
+  });
+
+  it('quotes reserved words in their folded form', () => {
+    expect(quoter.identifier('order')).toBe('"ORDER"');
+    expect(quoter.column('user')).toBe('"USER"');
+    expect(quoter.qualified('app.group')).toBe('app."GROUP"');
+  });
+
+  it('keeps delimited identifiers, including dots inside them', () => {
+    expect(quoter.identifier('"Mixed Case"')).toBe('"Mixed Case"');
+    expect(quoter.qualified('app."my.table"')).toBe('app."my.table"');
+    expect(quoter.fold('"Mixed Case"')).toBe('Mixed Case');
+    expect(quoter.fold('mixed')).toBe('MIXED');
+  });
+
+  it('accepts * and alias.*', () => {
+    expect(quoter.column('*')).toBe('*');
+    expect(quoter.column('u.*')).toBe('u.*');
+  });
+
+  it('rejects names that are not identifiers', () => {
+    for (const name of ['id; DROP TABLE users', '1abc', 'a b', '', 'a.']) {
+      expect(() => quoter.column(name)).toThrow(Db2InvalidIdentifierError);
+    }
+    expect(() => quoter.identifier('x'.repeat(129))).toThrow(
+      'exceeds 128 characters',
+    );
+    expect(() => quoter.identifier(42 as any)).toThrow(
+      "Invalid identifier '42': expected a string.",
+    );
+  });
+
+  describe('strict mode', () => {
+    const strict = () => {
+      const quoter = new IdentifierQuoter({
+        strict: true,
+        columns: ['id', 'title'],
+      });
+      quoter.table('app.posts', 'p');
+      return quoter;
+    };
+
+    it('accepts known columns regardless of case and qualification', () => {
+      const quoter = strict();
+      expect(quoter.column('ID')).toBe('ID');
+      expect(quoter.column('p.title')).toBe('p.title');
+      expect(quoter.column('app.posts.title')).toBe('app.posts.title');
+    });
+
+    it('rejects unknown columns of the queried table', () => {
+      for (const reference of ['order', 'p.body', 'POSTS.body']) {
+        expect(() => strict().column(reference)).toThrow(
+          Db2InvalidIdentifierError,
+        );
+      }
+      expect(() => strict().column('order')).toThrow(
+        "Unknown column 'order': strict mode only accepts columns defined in the entity metadata.",
+      );
+    });
+
+    it('does not check the columns of other tables', () => {
+      const quoter = strict();
+      expect(quoter.column('u.name')).toBe('u.name');
+      expect(quoter.clone().column('app.users.name')).toBe('app.users.name');
+      expect(() => quoter.clone().column('p.body')).toThrow(
+        "Unknown column 'body'",
+      );
+    });
+
+    it('accepts aliases defined by the query', () => {
+      const quoter = strict();
+      expect(quoter.alias('total')).toBe('total');
+      expect(quoter.column('total')).toBe('total');
+      expect(quoter.clone().column('total')).toBe('total');
+    });
+
+    it('rejects every column when none are known', () => {
+      for (const columns of [undefined, []]) {
+        const quoter = new IdentifierQuoter({ strict: true, columns });
+        quoter.table('posts');
+        expect(() => quoter.column('id')).toThrow("Unknown column 'id'");
+        expect(() => quoter.column('posts.id')).toThrow("Unknown column 'id'");
+        expect(quoter.alias('total')).toBe('total');
+        expect(quoter.column('total')).toBe('total');
+      }
+    });
+
+    it('applies the client setting to QueryBuilder when columns are given', () => {
+      const client: any = {
+        getIdentifierOptions: () => ({ strict: true }),
+        getPaginationOptions: () => ({}),
+      };
+      expect(
+        new QueryBuilder('posts', client).select(['anything']).build().query,
+      ).toBe('SELECT anything FROM posts;');
+      const posts = new QueryBuilder('posts', client, { columns: ['id'] });
+      expect(
+        posts
+          .from('posts', 'p')
+          .select(['p.id', 'u.name'])
+          .join('users u', 'u.id = p.user_id')
+          .build().query,
+      ).toBe(
+        'SELECT p.id, u.name FROM posts AS p INNER JOIN users u ON u.id = p.user_id;',
+      );
+      expect(() => posts.select(['p.title'])).toThrow("Unknown column 'title'");
+      expect(() =>
+        new QueryBuilder('posts', client, { strict: true }).select(['id']),
+      ).toThrow("Unknown column 'id'");
+    });
+  });
+
+  it('maps unqualified column references through columnName', () => {
+    const quoter = new IdentifierQuoter({
+      strict: true,
+      columns: ['created_at'],
+      columnName: (property) =>
+        property === 'createdAt' ? 'created_at' : property,
+    });
+    expect(quoter.column('createdAt')).toBe('created_at');
+    expect(quoter.clone().column('createdAt')).toBe('created_at');
+    quoter.table('posts', 'p');
+    expect(() => quoter.column('p.createdAt')).toThrow(
+      "Unknown column 'createdAt'",
+    );
+  });
+
+  it('validates the names used by QueryBuilder', () => {
+    const client: any = {
+      getIdentifierOptions: () => ({}),
+      getPaginationOptions: () => ({}),
+    };
+    expect(
+      new QueryBuilder('app.orders', client)
+        .select(['id', 'order'])
+        .orderBy('order', 'DESC')
+        .build().query,
+    ).toBe('SELECT id, "ORDER" FROM app.orders ORDER BY "ORDER" DESC;');
+    expect(() =>
+      new QueryBuilder('orders', client).orderBy('id; DROP TABLE orders'),
+    ).toThrow(Db2InvalidIdentifierError);
+  });
+});
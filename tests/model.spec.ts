@@ -0,0 +1,209 @@
+import { Model } from '../src/orm/model';
+import { ModelRegistry } from '../src/orm/model-registry';
+
+class Event {
+  id: number;
+  active: boolean;
+  createdAt: Date;
+  payload: Record<string, any>;
+  seq: number;
+  total: number;
+  label: string;
+  day: Date;
+}
+
+describe('Model', () => {
+  const metadata: any = {
+    name: 'app',
+    entityType: 'table',
+    tableMetadata: {
+      tableName: 'events',
+      primaryKeys: [{ propertyKey: 'id', autoIncrement: true }],
+      columns: [
+        { propertyKey: 'id', type: 'integer' },
+        { propertyKey: 'active', type: 'boolean' },
+        { propertyKey: 'createdAt', name: 'created_at', type: 'timestamp' },
+        { propertyKey: 'payload', type: 'json' },
+        { propertyKey: 'seq', type: 'integer', autoIncrement: true },
+        { propertyKey: 'total', type: 'integer', generated: true },
+        { propertyKey: 'label', type: 'varchar', virtual: true },
+        { propertyKey: 'day', type: 'date', asExpression: 'DATE(created_at)' },
+      ],
+    },
+  };
+  let query: jest.Mock;
+  let model: Model<Event>;
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue([]);
+    const client: any = {
+      getIdentifierOptions: () => ({}),
+      getPaginationOptions: () => ({}),
+      query,
+    };
+    const schema: any = {
+      setEntity: () => undefined,
+      getCurrentMetadata: () => metadata,
+    };
+    model = new Model<Event>(client, schema, new ModelRegistry());
+    model.setEntity(Event);
+  });
+
+  describe('createQueryBuilder', () => {
+    it('converts values compared in structured conditions by column type', () => {
+      const since = new Date(2024, 0, 31, 8, 0, 0);
+      expect(
+        model
+          .createQueryBuilder()
+          .where({ createdAt: { gte: since }, active: true })
+          .or({ active: [false], payload: { eq: { level: 1 } } })
+          .build(),
+      ).toEqual({
+        query:
+          'SELECT * FROM app.events WHERE (created_at >= ? AND active = ?) OR (active IN (?) AND payload = ?);',
+        params: ['2024-01-31 08:00:00.000000', 1, 0, '{"level":1}'],
+      });
+    });
+
+    it('casts upsert values to the declared column types', () => {
+      expect(
+        model
+          .createQueryBuilder()
+          .upsert('app.events', ['id', 'createdAt'], [[1, 'x']], 'id', [])
+          .build().query,
+      ).toBe(
+        'MERGE INTO app.events AS target USING (VALUES (CAST(? AS INTEGER), CAST(? AS TIMESTAMP))) AS source (id, created_at) ' +
+          'ON target.id = source.id WHEN NOT MATCHED THEN INSERT (id, created_at) VALUES (source.id, source.created_at);',
+      );
+    });
+
+    it('leaves the parameters of raw SQL conditions unconverted', () => {
+      const since = new Date(2024, 0, 31);
+      expect(
+        model.createQueryBuilder().where('created_at >= ?', [since]).build()
+          .params,
+      ).toEqual([since]);
+    });
+  });
+
+  describe('save', () => {
+    it('inserts the values and reads the row back from the FINAL TABLE', async () => {
+      query.mockResolvedValueOnce([
+        { ID: 5, ACTIVE: 1, CREATED_AT: '2024-01-31-08.00.00.000000', SEQ: 9 },
+      ]);
+      const event = new Event();
+      event.active = true;
+      event.createdAt = new Date(2024, 0, 31, 8, 0, 0);
+
+      const saved = await model.save(event);
+
+      expect(query).toHaveBeenCalledWith(
+        'SELECT * FROM FINAL TABLE (INSERT INTO app.events (active, created_at) VALUES (?, ?))',
+        [1, '2024-01-31 08:00:00.000000'],
+      );
+      expect(saved).toBe(event);
+      expect(saved).toMatchObject({ id: 5, active: true, seq: 9 });
+    });
+
+    it('leaves identity, generated, virtual and expression columns to Db2', async () => {
+      query.mockResolvedValueOnce([{ ID: 1 }]);
+      await model.save({
+        id: 1,
+        payload: { level: 2 },
+        seq: 2,
+        total: 3,
+        label: 'x',
+        day: new Date(2024, 0, 1),
+      } as Partial<Event> as Event);
+
+      expect(query).toHaveBeenCalledWith(
+        'SELECT * FROM FINAL TABLE (INSERT INTO app.events (payload) VALUES (?))',
+        ['{"level":2}'],
+      );
+    });
+
+    it('inserts a row of defaults when no value is set', async () => {
+      query.mockResolvedValueOnce([{ ID: 1 }]);
+      const saved = await model.save({} as Event);
+
+      expect(query).toHaveBeenCalledWith(
+        'SELECT * FROM FINAL TABLE (INSERT INTO app.events (id) VALUES (DEFAULT))',
+        [],
+      );
+      expect(saved).toBeInstanceOf(Event);
+    });
+
+    it('fails when the insert returns no row', async () => {
+      await expect(model.save({ active: true } as Event)).rejects.toThrow(
+        'Insert operation did not return any results.',
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('updates the matching rows and reads them back from the FINAL TABLE', async () => {
+      query.mockResolvedValueOnce([
+        { ID: 1, ACTIVE: 0 },
+        { ID: 2, ACTIVE: 0 },
+      ]);
+
+      const updated = await model.update(
+        { createdAt: { lt: new Date(2024, 0, 1) } },
+        { active: false, payload: undefined },
+      );
+
+      expect(query).toHaveBeenCalledWith(
+        'SELECT * FROM FINAL TABLE (UPDATE app.events SET active = ? WHERE created_at < ?)',
+        [0, '2024-01-01 00:00:00.000000'],
+      );
+      expect(updated).toEqual([
+        expect.objectContaining({ id: 1, active: false }),
+        expect.objectContaining({ id: 2, active: false }),
+      ]);
+      expect(updated[0]).toBeInstanceOf(Event);
+    });
+
+    it('requires a value to set', async () => {
+      await expect(
+        model.update({ id: 1 }, { active: undefined }),
+      ).rejects.toThrow('Update requires at least one value to set.');
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findPaginated', () => {
+    it('builds the page and count queries from the same conditions without sharing state', async () => {
+      query
+        .mockResolvedValueOnce([{ ID: 11, ACTIVE: 1 }])
+        .mockResolvedValueOnce([{ COUNT: '11' }]);
+
+      const result = await model.findPaginated({ active: true }, 3, 5);
+
+      expect(query.mock.calls).toEqual([
+        [
+          'SELECT * FROM app.events WHERE active = ? OFFSET 10 ROWS FETCH FIRST 5 ROWS ONLY OPTIMIZE FOR 5 ROWS;',
+          [1],
+        ],
+        ['SELECT COUNT(*) AS count FROM app.events WHERE active = ?;', [1]],
+      ]);
+      expect(result).toMatchObject({ total: 11, page: 3, pageSize: 5 });
+      expect(result.data).toEqual([
+        expect.objectContaining({ id: 11, active: true }),
+      ]);
+    });
+
+    it('does not carry state over to the next call', async () => {
+      query.mockResolvedValue([]);
+      await model.findPaginated({ active: true }, 2, 5);
+      await model.findPaginated({}, 1, 5);
+
+      expect(query.mock.calls.slice(2)).toEqual([
+        [
+          'SELECT * FROM app.events FETCH FIRST 5 ROWS ONLY OPTIMIZE FOR 5 ROWS;',
+          [],
+        ],
+        ['SELECT COUNT(*) AS count FROM app.events;', []],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { QueryBuilder } from '../src/db/query-builder';
+import {
+  compileNamedParameters,
+  hasNamedParameters,
+  toPositionalStatement,
+} from '../src/utils';
+
+describe('named parameters', () => {
+  it('rewrites :name markers to ? in order of appearance', () => {
+    expect(
+      compileNamedParameters(
+        'SELECT * FROM users WHERE name = :name AND age > :age',
+        { age: 30, name: 'Ann' },
+      ),
+    ).toEqual({
+      sql: 'SELECT * FROM users WHERE name = ? AND age > ?',
+      params: ['Ann', 30],
+    });
+  });
+
+  it('binds a repeated name once per marker', () => {
+    expect(
+      compileNamedParameters(
+        'SELECT * FROM orders WHERE user_id = :userId OR approver_id = :userId',
+        { userId: 7 },
+      ),
+    ).toEqual({
+      sql: 'SELECT * FROM orders WHERE user_id = ? OR approver_id = ?',
+      params: [7, 7],
+    });
+  });
+
+  it('expands arrays to a list of markers', () => {
+    expect(
+      compileNamedParameters('SELECT * FROM t WHERE status IN (:statuses)', {
+        statuses: ['open', 'held'],
+      }),
+    ).toEqual({
+      sql: 'SELECT * FROM t WHERE status IN (?, ?)',
+      params: ['open', 'held'],
+    });
+  });
+
+  it('ignores markers inside string literals, delimited identifiers and comments', () => {
+    const sql =
+      'SELECT \':skip\', "a:b" FROM t -- :comment\n' +
+      'WHERE x = :x /* :block */ AND y = :y';
+    expect(compileNamedParameters(sql, { x: 1, y: 2 })).toEqual({
+      sql:
+        'SELECT \':skip\', "a:b" FROM t -- :comment\n' +
+        'WHERE x = ? /* :block */ AND y = ?',
+      params: [1, 2],
+    });
+    expect(hasNamedParameters("SELECT ':a' FROM t -- :b")).toBe(false);
+  });
+
+  it('ignores colons that do not start a marker', () => {
+    expect(
+      compileNamedParameters('SELECT a::int, b FROM t WHERE c = :c', { c: 1 }),
+    ).toEqual({
+      sql: 'SELECT a::int, b FROM t WHERE c = ?',
+      params: [1],
+    });
+  });
+
+  it('passes statements without markers through', () => {
+    expect(compileNamedParameters('SELECT 1 FROM t', {})).toEqual({
+      sql: 'SELECT 1 FROM t',
+      params: [],
+    });
+  });
+
+  it('rejects missing values, empty lists and mixed markers', () => {
+    expect(() =>
+      compileNamedParameters('SELECT * FROM t WHERE a = :a', {}),
+    ).toThrow("Missing value for named parameter ':a'.");
+    expect(() =>
+      compileNamedParameters('SELECT * FROM t WHERE a IN (:a)', { a: [] }),
+    ).toThrow("Named parameter ':a' is an empty list.");
+    expect(() =>
+      compileNamedParameters('SELECT * FROM t WHERE a = :a AND b = ?', {
+        a: 1,
+      }),
+    ).toThrow(
+      'Named parameters require :name markers; the statement uses positional (?) markers.',
+    );
+  });
+
+  it('treats arrays as positional and objects as named parameters', () => {
+    expect(toPositionalStatement('SELECT ? FROM t', [1])).toEqual({
+      sql: 'SELECT ? FROM t',
+      params: [1],
+    });
+    expect(toPositionalStatement('SELECT :a FROM t', { a: 1 })).toEqual({
+      sql: 'SELECT ? FROM t',
+      params: [1],
+    });
+    expect(toPositionalStatement('SELECT 1 FROM t')).toEqual({
+      sql: 'SELECT 1 FROM t',
+      params: [],
+    });
+  });
+
+  it('compiles named parameters in QueryBuilder conditions', () => {
+    const client: any = {
+      getIdentifierOptions: () => ({}),
+      getPaginationOptions: () => ({}),
+    };
+    expect(
+      new QueryBuilder('orders', client)
+        .where('status = :status', { status: 'open' })
+        .and('(total > :min OR total < :max)', { min: 10, max: 1 })
+        .groupBy('status')
+        .having('COUNT(*) > :count', { count: 2 })
+        .build(),
+    ).toEqual({
+      query:
+        'SELECT * FROM orders WHERE status = ? AND (total > ? OR total < ?) GROUP BY status HAVING COUNT(*) > ?;',
+      params: ['open', 10, 1, 2],
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { Paginator } from '../src/db/paginator';
+import { QueryBuilder } from '../src/db/query-builder';
+import { Db2Dialect, Db2PaginationStrategy } from '../src/enums';
+
+describe('Paginator', () => {
+  describe('OFFSET/FETCH', () => {
+    const paginator = new Paginator({ dialect: Db2Dialect.LUW });
+
+    it('appends ORDER BY, OFFSET and FETCH FIRST', () => {
+      expect(
+        paginator.paginate('SELECT * FROM users', ['id ASC'], {
+          limit: 10,
+          offset: 20,
+        }),
+      ).toBe(
+        'SELECT * FROM users ORDER BY id ASC OFFSET 20 ROWS FETCH FIRST 10 ROWS ONLY',
+      );
+    });
+
+    it('leaves out a zero offset and a missing limit', () => {
+      expect(
+        paginator.paginate('SELECT * FROM users', [], { limit: 5, offset: 0 }),
+      ).toBe('SELECT * FROM users FETCH FIRST 5 ROWS ONLY');
+      expect(paginator.paginate('SELECT * FROM users', [], { offset: 3 })).toBe(
+        'SELECT * FROM users OFFSET 3 ROWS',
+      );
+      expect(paginator.paginate('SELECT * FROM users', [])).toBe(
+        'SELECT * FROM users',
+      );
+    });
+
+    it('is the default for IBM i', () => {
+      expect(
+        new Paginator({ dialect: Db2Dialect.IBMI }).paginate(
+          'SELECT * FROM t',
+          [],
+          { limit: 1, offset: 1 },
+        ),
+      ).toBe('SELECT * FROM t OFFSET 1 ROWS FETCH FIRST 1 ROWS ONLY');
+    });
+  });
+
+  describe('ROW_NUMBER', () => {
+    const paginator = new Paginator({ dialect: Db2Dialect.ZOS });
+
+    it('numbers the rows of the ordered statement and filters on the number', () => {
+      expect(
+        paginator.paginate('SELECT * FROM users u', ['u.name DESC', 'id'], {
+          limit: 10,
+          offset: 20,
+        }),
+      ).toBe(
+        'SELECT * FROM (SELECT DB2_INNER.*, ROW_NUMBER() OVER (ORDER BY ORDER OF DB2_INNER) AS DB2_ROWNUM ' +
+          'FROM (SELECT * FROM users u ORDER BY u.name DESC, id) AS DB2_INNER) AS DB2_PAGED ' +
+          'WHERE DB2_ROWNUM > 20 AND DB2_ROWNUM <= 30 ORDER BY DB2_ROWNUM',
+      );
+    });
+
+    it('filters on the offset alone without a limit', () => {
+      expect(paginator.paginate('SELECT * FROM t', [], { offset: 5 })).toBe(
+        'SELECT * FROM (SELECT DB2_INNER.*, ROW_NUMBER() OVER () AS DB2_ROWNUM ' +
+          'FROM (SELECT * FROM t) AS DB2_INNER) AS DB2_PAGED ' +
+          'WHERE DB2_ROWNUM > 5 ORDER BY DB2_ROWNUM',
+      );
+    });
+
+    it('lists the result columns so the row number is not returned', () => {
+      expect(
+        paginator.paginate('SELECT id, name FROM t', ['created_at'], {
+          offset: 5,
+          columns: ['id', 'name'],
+        }),
+      ).toBe(
+        'SELECT DB2_PAGED.id, DB2_PAGED.name FROM (SELECT DB2_INNER.*, ROW_NUMBER() OVER (ORDER BY ORDER OF DB2_INNER) AS DB2_ROWNUM ' +
+          'FROM (SELECT id, name FROM t ORDER BY created_at) AS DB2_INNER) AS DB2_PAGED ' +
+          'WHERE DB2_ROWNUM > 5 ORDER BY DB2_ROWNUM',
+      );
+    });
+
+    it('uses FETCH FIRST when there is no offset', () => {
+      expect(
+        paginator.paginate('SELECT * FROM t', ['id'], { limit: 3, offset: 0 }),
+      ).toBe('SELECT * FROM t ORDER BY id FETCH FIRST 3 ROWS ONLY');
+    });
+
+    it('can be chosen on LUW', () => {
+      const forced = new Paginator({
+        dialect: Db2Dialect.LUW,
+        strategy: Db2PaginationStrategy.ROW_NUMBER,
+      });
+      expect(forced.paginate('SELECT * FROM t', [], { offset: 1 })).toContain(
+        'ROW_NUMBER() OVER ()',
+      );
+    });
+  });
+
+  describe('ROW_NUMBER in QueryBuilder', () => {
+    const client: any = {
+      getIdentifierOptions: () => ({}),
+      getPaginationOptions: () => ({ dialect: Db2Dialect.ZOS }),
+    };
+
+    it('selects the named result columns', () => {
+      const { query } = new QueryBuilder('posts', client)
+        .select(['p.id', 'u.name'])
+        .useFunction('UPPER(p.title)', 'title')
+        .join('users u', 'u.id = p.user_id')
+        .orderBy('p.created_at', 'DESC')
+        .limit(10)
+        .offset(10)
+        .build();
+      expect(query).toMatch(
+        /^SELECT DB2_PAGED\.id, DB2_PAGED\.name, DB2_PAGED\.title FROM \(SELECT DB2_INNER\.\*/,
+      );
+      expect(query).toContain('ORDER BY p.created_at DESC) AS DB2_INNER');
+    });
+
+    it('selects * when a result column has no name', () => {
+      const { query } = new QueryBuilder('posts', client)
+        .select(['id'])
+        .useFunction('UPPER(title)')
+        .offset(10)
+        .build();
+      expect(query).toMatch(/^SELECT \* FROM \(SELECT DB2_INNER\.\*/);
+    });
+
+    it('rejects locking clauses with an offset', () => {
+      const page = () =>
+        new QueryBuilder('jobs', client).select(['id']).limit(5).offset(5);
+      expect(() => page().forUpdate().build()).toThrow(
+        'FOR UPDATE and SKIP LOCKED DATA cannot be used with an offset under ROW_NUMBER pagination: the numbered result is read-only.',
+      );
+      expect(() => page().skipLocked().build()).toThrow(
+        'FOR UPDATE and SKIP LOCKED DATA cannot be used with an offset under ROW_NUMBER pagination',
+      );
+      expect(
+        new QueryBuilder('jobs', client)
+          .select(['id'])
+          .limit(5)
+          .forUpdate()
+          .skipLocked()
+          .build().query,
+      ).toBe(
+        'SELECT id FROM jobs FETCH FIRST 5 ROWS ONLY FOR UPDATE SKIP LOCKED DATA;',
+      );
+    });
+  });
+
+  it('renders OPTIMIZE FOR hints', () => {
+    expect(new Paginator().optimizeFor(50)).toBe('OPTIMIZE FOR 50 ROWS');
+  });
+
+  it('rejects negative and fractional row counts', () => {
+    const paginator = new Paginator();
+    expect(() => paginator.paginate('SELECT 1', [], { limit: -1 })).toThrow(
+      "Invalid limit '-1': expected a non-negative integer.",
+    );
+    expect(() => paginator.paginate('SELECT 1', [], { offset: 1.5 })).toThrow(
+      "Invalid offset '1.5': expected a non-negative integer.",
+    );
+    expect(() => paginator.optimizeFor(-3)).toThrow(
+      "Invalid optimizeFor '-3': expected a non-negative integer.",
+    );
+  });
+
+  it('paginates QueryBuilder queries with the client dialect', () => {
+    const client: any = {
+      getIdentifierOptions: () => ({}),
+      getPaginationOptions: () => ({ dialect: Db2Dialect.LUW }),
+    };
+    const { query, params } = new QueryBuilder('users', client)
+      .select(['id', 'name'])
+      .where({ active: true })
+      .orderBy('name')
+      .limit(10)
+      .offset(20)
+      .build();
+    expect(query).toBe(
+      'SELECT id, name FROM users WHERE active = ? ORDER BY name ASC OFFSET 20 ROWS FETCH FIRST 10 ROWS ONLY;',
+    );
+    expect(params).toEqual([true]);
+  });
+});
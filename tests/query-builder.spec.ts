@@ -0,0 +1,172 @@
+import { QueryBuilder } from '../src/db/query-builder';
+
+describe('QueryBuilder', () => {
+  const client: any = {
+    getIdentifierOptions: () => ({}),
+    getPaginationOptions: () => ({}),
+  };
+
+  describe('where', () => {
+    it('groups conditions joined with or() before adding another where()', () => {
+      const { query, params } = new QueryBuilder('t', client)
+        .where({ a: 1 })
+        .or({ b: 2 })
+        .where({ c: 3 })
+        .build();
+      expect(query).toBe('SELECT * FROM t WHERE (a = ? OR b = ?) AND c = ?;');
+      expect(params).toEqual([1, 2, 3]);
+    });
+
+    it('adds repeated where() calls with AND', () => {
+      expect(
+        new QueryBuilder('t', client)
+          .where({ a: 1 })
+          .where('b > ?', [2])
+          .and({ c: 3 })
+          .or({ d: 4 })
+          .build().query,
+      ).toBe('SELECT * FROM t WHERE a = ? AND b > ? AND c = ? OR d = ?;');
+    });
+  });
+
+  describe('immutable', () => {
+    it('returns a new builder from every call and leaves the original unchanged', () => {
+      const base = new QueryBuilder('t', client).where({ a: 1 }).immutable();
+      const page = base.where({ b: 2 }).orderBy('a').limit(5);
+      const count = base.count();
+
+      expect(base.build()).toEqual({
+        query: 'SELECT * FROM t WHERE a = ?;',
+        params: [1],
+      });
+      expect(page.build()).toEqual({
+        query:
+          'SELECT * FROM t WHERE a = ? AND b = ? ORDER BY a ASC FETCH FIRST 5 ROWS ONLY;',
+        params: [1, 2],
+      });
+      expect(count.build().query).toBe(
+        'SELECT COUNT(*) AS count FROM t WHERE a = ?;',
+      );
+    });
+  });
+
+  describe('FOR SYSTEM_TIME', () => {
+    it('binds dates as Db2 timestamp strings in local time', () => {
+      expect(
+        new QueryBuilder('orders', client)
+          .asOf(new Date(2024, 2, 31, 23, 59, 59, 5))
+          .build(),
+      ).toEqual({
+        query: 'SELECT * FROM orders FOR SYSTEM_TIME AS OF ?;',
+        params: ['2024-03-31 23:59:59.005000'],
+      });
+    });
+
+    it('binds both ends of a range and passes strings through', () => {
+      const { query, params } = new QueryBuilder('orders', client)
+        .systemTimeBetween('2024-01-01-00.00.00', new Date(2024, 0, 31))
+        .where({ id: 42 })
+        .build();
+      expect(query).toBe(
+        'SELECT * FROM orders FOR SYSTEM_TIME BETWEEN ? AND ? WHERE id = ?;',
+      );
+      expect(params).toEqual([
+        '2024-01-01-00.00.00',
+        '2024-01-31 00:00:00.000000',
+        42,
+      ]);
+      expect(params[1]).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}\.\d{6}$/);
+    });
+
+    it('rejects invalid dates', () => {
+      expect(() =>
+        new QueryBuilder('orders', client).asOf(new Date('invalid')),
+      ).toThrow("Invalid FOR SYSTEM_TIME timestamp 'Invalid Date'");
+    });
+  });
+
+  describe('count', () => {
+    it('counts all rows by default', () => {
+      expect(new QueryBuilder('users', client).count().build().query).toBe(
+        'SELECT COUNT(*) AS count FROM users;',
+      );
+    });
+
+    it('adds the count to the selected columns and groups', () => {
+      expect(
+        new QueryBuilder('users', client)
+          .select('status')
+          .count('id', 'users')
+          .sum('score', 'score')
+          .groupBy('status')
+          .having('COUNT(id) > ?', [1])
+          .build(),
+      ).toEqual({
+        query:
+          'SELECT status, COUNT(id) AS users, SUM(score) AS score FROM users GROUP BY status HAVING COUNT(id) > ?;',
+        params: [1],
+      });
+      expect(
+        new QueryBuilder('users', client)
+          .groupBy('status')
+          .count()
+          .select('status')
+          .build().query,
+      ).toBe('SELECT COUNT(*) AS count, status FROM users GROUP BY status;');
+    });
+
+    it('cannot be locked for update', () => {
+      expect(() =>
+        new QueryBuilder('users', client).count().forUpdate().build(),
+      ).toThrow(
+        'FOR UPDATE cannot be used with aggregate functions: the result is read-only.',
+      );
+    });
+  });
+
+  describe('upsert', () => {
+    it('casts the VALUES markers to the column types', () => {
+      expect(
+        new QueryBuilder('users', client, {
+          columnTypes: { id: 'integer', name: 'VARCHAR(40)' },
+        })
+          .upsert(
+            'users',
+            ['id', 'name'],
+            [
+              [1, 'Alice'],
+              [2, 'Bob'],
+            ],
+            'id',
+            ['name'],
+          )
+          .build(),
+      ).toEqual({
+        query:
+          'MERGE INTO users AS target ' +
+          'USING (VALUES (CAST(? AS INTEGER), CAST(? AS VARCHAR(40))), (CAST(? AS INTEGER), CAST(? AS VARCHAR(40)))) AS source (id, name) ' +
+          'ON target.id = source.id ' +
+          'WHEN MATCHED THEN UPDATE SET name = source.name ' +
+          'WHEN NOT MATCHED THEN INSERT (id, name) VALUES (source.id, source.name);',
+        params: [1, 'Alice', 2, 'Bob'],
+      });
+    });
+
+    it('requires a valid type for every inserted column', () => {
+      const upsert = (columnTypes: Record<string, string>) => () =>
+        new QueryBuilder('users', client, { columnTypes }).upsert(
+          'users',
+          ['id', 'name'],
+          [[1, 'Alice']],
+          'id',
+          [],
+        );
+      expect(upsert({ id: 'INTEGER' })).toThrow(
+        "UPSERT requires the data type of column 'name' in the columnTypes option.",
+      );
+      expect(upsert({ id: 'INTEGER', name: 'VARCHAR(40)); DROP' })).toThrow(
+        "Invalid SQL data type 'VARCHAR(40)); DROP'.",
+      );
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { EntityMetadataStorage } from '../src/orm/metadata/entity-metadata.storage';
+import { RelationLoader } from '../src/orm/relation-loader';
+
+class User {}
+class Post {}
+class Comment {}
+class Role {}
+class Employee {}
+
+const table = (tableName: string, tableMetadata: any): any => ({
+  entityType: 'table',
+  name: 'app',
+  tableMetadata: {
+    tableName,
+    primaryKeys: [],
+    foreignKeys: [],
+    manyToManyRelations: [],
+    oneToManyRelations: [],
+    manyToOneRelations: [],
+    ...tableMetadata,
+  },
+});
+
+EntityMetadataStorage.setEntityMetadata(
+  User,
+  table('users', {
+    columns: [{ propertyKey: 'id', type: 'integer', primary: true }],
+    oneToManyRelations: [{ propertyKey: 'posts', target: Post }],
+    manyToManyRelations: [
+      {
+        propertyKey: 'roles',
+        target: Role,
+        joinTable: 'user_roles',
+        joinColumn: 'user_id',
+        inverseJoinColumn: 'role_id',
+      },
+    ],
+  }),
+);
+EntityMetadataStorage.setEntityMetadata(
+  Post,
+  table('posts', {
+    columns: [
+      { propertyKey: 'id', type: 'integer', primary: true },
+      { propertyKey: 'userId', name: 'user_id', type: 'integer' },
+    ],
+    manyToOneRelations: [
+      { propertyKey: 'author', target: User, joinColumn: 'user_id' },
+    ],
+    oneToManyRelations: [{ propertyKey: 'comments', target: Comment }],
+  }),
+);
+EntityMetadataStorage.setEntityMetadata(
+  Comment,
+  table('comments', {
+    columns: [
+      { propertyKey: 'id', type: 'integer', primary: true },
+      { propertyKey: 'postId', name: 'post_id', type: 'integer' },
+    ],
+    manyToOneRelations: [
+      { propertyKey: 'post', target: Post, joinColumn: 'post_id' },
+    ],
+  }),
+);
+EntityMetadataStorage.setEntityMetadata(
+  Role,
+  table('roles', {
+    columns: [
+      { propertyKey: 'code', type: 'varchar', length: 20, primary: true },
+    ],
+  }),
+);
+
+EntityMetadataStorage.setEntityMetadata(
+  Employee,
+  table('employees', {
+    columns: [
+      { propertyKey: 'id', type: 'integer', primary: true },
+      { propertyKey: 'managerId', name: 'manager_id', type: 'integer' },
+    ],
+    manyToOneRelations: [
+      { propertyKey: 'manager', target: Employee, joinColumn: 'manager_id' },
+    ],
+    oneToManyRelations: [{ propertyKey: 'reports', target: Employee }],
+  }),
+);
+
+describe('RelationLoader', () => {
+  let query: jest.Mock;
+  let loader: RelationLoader;
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue([]);
+    const client: any = { getIdentifierOptions: () => ({}), query };
+    // The models of related entities load the next level with a loader too
+    const modelRegistry: any = {
+      getModelForEntity: (entity: any) => ({
+        populate: (records: any[], paths: string[]) =>
+          loader.load(entity, records, paths),
+      }),
+    };
+    loader = new RelationLoader(client, modelRegistry);
+  });
+
+  it('loads a relation of all records with one query and groups the rows', async () => {
+    query.mockResolvedValueOnce([
+      { id: 10, user_id: 1 },
+      { id: 11, user_id: '1' },
+      { id: 12, user_id: 2 },
+    ]);
+    const users: any[] = [{ id: 1 }, { id: 2 }, { id: 3 }, { id: 1 }];
+    await loader.load(User, users, ['posts']);
+
+    expect(query.mock.calls).toEqual([
+      ['SELECT * FROM app.posts WHERE user_id IN (?, ?, ?)', [1, 2, 3]],
+    ]);
+    expect(users.map((user) => user.posts.map((post: any) => post.id))).toEqual(
+      [[10, 11], [12], [], [10, 11]],
+    );
+    expect(users[0].posts[0]).toBeInstanceOf(Post);
+    expect(users[0].posts[0].userId).toBe(1);
+  });
+
+  it('assigns the related record or null to many-to-one relations', async () => {
+    query.mockResolvedValueOnce([{ id: 1 }]);
+    const posts: any[] = [
+      { id: 10, userId: 1 },
+      { id: 11, userId: 2 },
+      { id: 12, userId: null },
+    ];
+    await loader.load(Post, posts, ['author']);
+
+    expect(query).toHaveBeenCalledWith(
+      'SELECT * FROM app.users WHERE id IN (?, ?)',
+      [1, 2],
+    );
+    expect(posts.map((post) => post.author?.id ?? null)).toEqual([
+      1,
+      null,
+      null,
+    ]);
+  });
+
+  it('binds at most 1000 keys per IN list', async () => {
+    const users: any[] = Array.from({ length: 2001 }, (_, index) => ({
+      id: index + 1,
+    }));
+    query.mockImplementation(async (_sql: string, params: any[]) =>
+      params.map((id) => ({ id: id * 10, user_id: id })),
+    );
+    await loader.load(User, users, ['posts']);
+
+    expect(query.mock.calls.map(([, params]) => params.length)).toEqual([
+      1000, 1000, 1,
+    ]);
+    expect(query.mock.calls[2]).toEqual([
+      'SELECT * FROM app.posts WHERE user_id IN (?)',
+      [2001],
+    ]);
+    expect(users[1500].posts.map((post: any) => post.id)).toEqual([15010]);
+  });
+
+  it('groups many-to-many rows by the source key alias', async () => {
+    query.mockResolvedValueOnce([
+      { RELATION_SOURCE_KEY: 1, code: 'admin' },
+      { RELATION_SOURCE_KEY: '1', code: 'editor' },
+      { RELATION_SOURCE_KEY: 2, code: 'editor' },
+    ]);
+    const users: any[] = [{ id: 1 }, { id: 2 }, { id: 3 }];
+    await loader.load(User, users, ['roles']);
+
+    expect(query).toHaveBeenCalledWith(
+      'SELECT j.user_id AS relation_source_key, t.* ' +
+        'FROM app.user_roles j JOIN app.roles t ON t.code = j.role_id ' +
+        'WHERE j.user_id IN (?, ?, ?)',
+      [1, 2, 3],
+    );
+    expect(
+      users.map((user) => user.roles.map((role: any) => role.code)),
+    ).toEqual([['admin', 'editor'], ['editor'], []]);
+    expect(users[0].roles[0]).toBeInstanceOf(Role);
+    expect(users[0].roles[0]).not.toHaveProperty('RELATION_SOURCE_KEY');
+  });
+
+  it('loads nested paths level by level, once per shared prefix', async () => {
+    query
+      .mockResolvedValueOnce([
+        { id: 10, user_id: 1 },
+        { id: 11, user_id: 2 },
+      ])
+      .mockResolvedValueOnce([
+        { id: 100, post_id: 10 },
+        { id: 101, post_id: 10 },
+      ]);
+    const users: any[] = [{ id: 1 }, { id: 2 }];
+    await loader.load(User, users, ['posts', 'posts.comments']);
+
+    expect(query.mock.calls).toEqual([
+      ['SELECT * FROM app.posts WHERE user_id IN (?, ?)', [1, 2]],
+      ['SELECT * FROM app.comments WHERE post_id IN (?, ?)', [10, 11]],
+    ]);
+    expect(
+      users[0].posts[0].comments.map((comment: any) => comment.id),
+    ).toEqual([100, 101]);
+    expect(users[1].posts[0].comments).toEqual([]);
+  });
+
+  it('skips the query when no record has a key', async () => {
+    const posts: any[] = [{ id: 10, userId: null }];
+    await loader.load(Post, posts, ['author']);
+    expect(query).not.toHaveBeenCalled();
+    expect(posts[0].author).toBeNull();
+  });
+
+  it('rejects undeclared relations and invalid paths before querying', async () => {
+    await expect(loader.load(User, [{ id: 1 }], ['friends'])).rejects.toThrow(
+      "Relation 'friends' is not declared on 'User'.",
+    );
+    await expect(loader.load(User, [{ id: 1 }], ['posts.'])).rejects.toThrow(
+      "Invalid relation path 'posts.'.",
+    );
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  describe('cyclic paths', () => {
+    const cyclic = (path: string) =>
+      `Relation path '${path}' is cyclic: '${path.split(' -> ').pop()}' leads back to records already loaded.`;
+
+    it('rejects a path back along the relation it came through', async () => {
+      await expect(
+        loader.load(User, [{ id: 1 }], ['posts.author']),
+      ).rejects.toThrow(cyclic('User.posts -> Post.author'));
+      await expect(
+        loader.load(Post, [{ id: 10 }], ['comments.post.author']),
+      ).rejects.toThrow(cyclic('Post.comments -> Comment.post'));
+      expect(query).not.toHaveBeenCalled();
+    });
+
+    it('rejects self-referencing relations that lead back or repeat', async () => {
+      await expect(
+        loader.load(Employee, [{ id: 1 }], ['reports.manager']),
+      ).rejects.toThrow(cyclic('Employee.reports -> Employee.manager'));
+      await expect(
+        loader.load(Employee, [{ id: 1 }], ['manager.manager']),
+      ).rejects.toThrow(cyclic('Employee.manager -> Employee.manager'));
+      await expect(
+        loader.load(Employee, [{ id: 1 }], ['manager', 'reports.reports']),
+      ).rejects.toThrow(cyclic('Employee.reports -> Employee.reports'));
+      expect(query).not.toHaveBeenCalled();
+    });
+
+    it('loads a self-referencing relation one level deep', async () => {
+      query.mockResolvedValueOnce([
+        { id: 2, manager_id: 1 },
+        { id: 3, manager_id: 1 },
+      ]);
+      const employees: any[] = [{ id: 1, managerId: null }];
+      await loader.load(Employee, employees, ['reports']);
+
+      expect(query).toHaveBeenCalledWith(
+        'SELECT * FROM app.employees WHERE manager_id IN (?)',
+        [1],
+      );
+      expect(employees[0].reports.map((report: any) => report.id)).toEqual([
+        2, 3,
+      ]);
+    });
+  });
+});
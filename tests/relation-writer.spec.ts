@@ -0,0 +1,102 @@
+import { EntityMetadataStorage } from '../src/orm/metadata/entity-metadata.storage';
+import { RelationWriter } from '../src/orm/relation-writer';
+
+class User {}
+class Role {}
+
+const table = (tableName: string, tableMetadata: any): any => ({
+  entityType: 'table',
+  name: 'app',
+  tableMetadata: {
+    tableName,
+    primaryKeys: [],
+    foreignKeys: [],
+    manyToManyRelations: [],
+    ...tableMetadata,
+  },
+});
+
+EntityMetadataStorage.setEntityMetadata(
+  User,
+  table('users', {
+    columns: [{ propertyKey: 'id', type: 'integer', primary: true }],
+    manyToManyRelations: [
+      {
+        propertyKey: 'roles',
+        target: Role,
+        joinTable: 'user_roles',
+        joinColumn: 'user_id',
+        inverseJoinColumn: 'role_id',
+      },
+    ],
+  }),
+);
+EntityMetadataStorage.setEntityMetadata(
+  Role,
+  table('roles', {
+    columns: [
+      { propertyKey: 'code', type: 'varchar', length: 20, primary: true },
+    ],
+  }),
+);
+
+describe('RelationWriter', () => {
+  let batch: jest.Mock;
+  let writer: RelationWriter;
+
+  beforeEach(() => {
+    batch = jest.fn().mockResolvedValue(undefined);
+    writer = new RelationWriter({
+      getIdentifierOptions: () => ({}),
+      batch,
+    } as any);
+  });
+
+  it('inserts only the missing links, casting the keys to their column types', async () => {
+    await writer.add(User, { id: 7 }, 'roles', ['admin', 'editor', 'admin']);
+    expect(batch).toHaveBeenCalledWith([
+      {
+        sql:
+          'MERGE INTO app.user_roles AS target ' +
+          'USING (VALUES (CAST(? AS INTEGER), CAST(? AS VARCHAR(20))), (CAST(? AS INTEGER), CAST(? AS VARCHAR(20)))) AS source (user_id, role_id) ' +
+          'ON target.user_id = source.user_id AND target.role_id = source.role_id ' +
+          'WHEN NOT MATCHED THEN INSERT (user_id, role_id) VALUES (source.user_id, source.role_id)',
+        params: [7, 'admin', 7, 'editor'],
+      },
+    ]);
+  });
+
+  it('deletes the given links', async () => {
+    await writer.remove(User, { id: 7 }, 'roles', ['guest', 'viewer']);
+    expect(batch).toHaveBeenCalledWith([
+      {
+        sql: 'DELETE FROM app.user_roles WHERE user_id = ? AND role_id IN (?, ?)',
+        params: [7, 'guest', 'viewer'],
+      },
+    ]);
+  });
+
+  it('replaces all links of the record', async () => {
+    await writer.set(User, { id: 7 }, 'roles', ['admin']);
+    expect(batch).toHaveBeenCalledWith([
+      { sql: 'DELETE FROM app.user_roles WHERE user_id = ?', params: [7] },
+      {
+        sql: 'INSERT INTO app.user_roles (user_id, role_id) VALUES (?, ?)',
+        params: [7, 'admin'],
+      },
+    ]);
+    await writer.set(User, { id: 7 }, 'roles', []);
+    expect(batch).toHaveBeenLastCalledWith([
+      { sql: 'DELETE FROM app.user_roles WHERE user_id = ?', params: [7] },
+    ]);
+  });
+
+  it('skips empty changes and rejects records without a key', async () => {
+    await writer.add(User, { id: 7 }, 'roles', []);
+    await writer.remove(User, { id: 7 }, 'roles', []);
+    expect(batch).not.toHaveBeenCalled();
+    await expect(writer.add(User, {}, 'roles', ['admin'])).rejects.toThrow(
+      "Cannot update relation 'roles' of 'User': the instance has no 'id'.",
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import { SchemaBuilder } from '../src/db/schema-builder';
+
+describe('SchemaBuilder', () => {
+  it('renders CREATE TABLE with columns, constraints, indexes and comments', () => {
+    expect(
+      new SchemaBuilder()
+        .createTable('app.posts', (t) => {
+          t.integer('id').identity().primary();
+          t.varchar('title', 150).notNull().comment("Post's title");
+          t.varchar('slug').unique();
+          t.decimal('price', 8, 2).default(0).check('price >= 0');
+          t.boolean('published').default(false);
+          t.integer('user_id')
+            .notNull()
+            .references('users', 'id', { onDelete: 'CASCADE' });
+          t.timestamp('created_at').notNull().defaultRaw('CURRENT TIMESTAMP');
+          t.index(['user_id']);
+          t.comment('Blog posts');
+        })
+        .build(),
+    ).toEqual([
+      [
+        'CREATE TABLE app.posts (',
+        '  id INTEGER NOT NULL GENERATED BY DEFAULT AS IDENTITY (START WITH 1 INCREMENT BY 1),',
+        '  title VARCHAR(150) NOT NULL,',
+        '  slug VARCHAR(255) NOT NULL UNIQUE,',
+        '  price DECIMAL(8, 2) DEFAULT 0 CHECK (price >= 0),',
+        '  published BOOLEAN DEFAULT FALSE,',
+        '  user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,',
+        '  created_at TIMESTAMP(6) NOT NULL DEFAULT CURRENT TIMESTAMP,',
+        '  PRIMARY KEY (id)',
+        ')',
+      ].join('\n'),
+      'CREATE INDEX app.posts_user_id_idx ON app.posts (user_id)',
+      "COMMENT ON TABLE app.posts IS 'Blog posts'",
+      "COMMENT ON COLUMN app.posts.title IS 'Post''s title'",
+    ]);
+  });
+
+  it('renders table constraints and makes key columns NOT NULL', () => {
+    expect(
+      new SchemaBuilder()
+        .createTable(
+          'post_tags',
+          (t) => {
+            t.integer('post_id');
+            t.integer('tag_id');
+            t.varchar('user', 20);
+            t.primary(['post_id', 'tag_id'], 'pk_post_tags');
+            t.unique(['user'], 'uq_user');
+            t.foreign(['post_id'], 'posts', ['id'], {
+              name: 'fk_post',
+              onDelete: 'SET NULL',
+              onUpdate: 'RESTRICT',
+            });
+          },
+          { ifNotExists: true },
+        )
+        .toSQL(),
+    ).toBe(
+      [
+        'CREATE TABLE IF NOT EXISTS post_tags (',
+        '  post_id INTEGER NOT NULL,',
+        '  tag_id INTEGER NOT NULL,',
+        '  "USER" VARCHAR(20) NOT NULL,',
+        '  CONSTRAINT pk_post_tags PRIMARY KEY (post_id, tag_id),',
+        '  CONSTRAINT uq_user UNIQUE ("USER"),',
+        '  CONSTRAINT fk_post FOREIGN KEY (post_id) REFERENCES posts (id) ON DELETE SET NULL ON UPDATE RESTRICT',
+        ');',
+      ].join('\n'),
+    );
+  });
+
+  it('renders ALTER TABLE changes in order and reorganizes after dropping a column', () => {
+    expect(
+      new SchemaBuilder()
+        .alterTable('users', (t) => {
+          t.varchar('nickname', 40);
+          t.dropColumn('legacy');
+          t.renameColumn('mail', 'email');
+          t.unique(['email'], 'uq_email');
+        })
+        .build(),
+    ).toEqual([
+      'ALTER TABLE users ADD COLUMN nickname VARCHAR(40)',
+      'ALTER TABLE users DROP COLUMN legacy',
+      'ALTER TABLE users RENAME COLUMN mail TO email',
+      'ALTER TABLE users ADD CONSTRAINT uq_email UNIQUE (email)',
+      "CALL SYSPROC.ADMIN_CMD('REORG TABLE users')",
+    ]);
+  });
+
+  it('renders table, column and index statements', () => {
+    expect(
+      new SchemaBuilder()
+        .renameTable('app.posts', 'articles')
+        .renameColumn('articles', 'body', 'content')
+        .createIndex('idx_email', 'users', ['email'], {
+          unique: true,
+          include: ['name'],
+        })
+        .dropIndex('idx_email')
+        .dropTable('articles', { ifExists: true })
+        .build(),
+    ).toEqual([
+      'RENAME TABLE app.posts TO articles',
+      'ALTER TABLE articles RENAME COLUMN body TO content',
+      'CREATE UNIQUE INDEX idx_email ON users (email) INCLUDE (name)',
+      'DROP INDEX idx_email',
+      'DROP TABLE IF EXISTS articles',
+    ]);
+  });
+
+  it('rejects invalid definitions', () => {
+    const create = (define: (t: any) => void) => () =>
+      new SchemaBuilder().createTable('t', define);
+    expect(create(() => undefined)).toThrow(
+      "Table 't' requires at least one column.",
+    );
+    expect(create((t) => t.column('a', 'INT; DROP TABLE t'))).toThrow(
+      "Invalid data type 'INT; DROP TABLE t' for column 'a'.",
+    );
+    expect(create((t) => t.decimal('a', 40))).toThrow(
+      "Invalid DECIMAL(40, 0) for column 'a': precision must be 1 to 31 and scale 0 to the precision.",
+    );
+    expect(create((t) => t.integer('a').identity().default(1))).toThrow(
+      "Column 'a' cannot have both a default and an identity.",
+    );
+    expect(create((t) => t.dropColumn('b'))).toThrow(
+      'dropColumn() can only be used in alterTable().',
+    );
+    expect(
+      create((t) =>
+        t.integer('a').references('b', 'id', { onUpdate: 'CASCADE' }),
+      ),
+    ).toThrow(
+      "Invalid ON UPDATE action 'CASCADE': Db2 only supports RESTRICT and NO ACTION.",
+    );
+    expect(() => new SchemaBuilder().alterTable('t', () => undefined)).toThrow(
+      "No changes declared for table 't'.",
+    );
+  });
+
+  it('rejects execute() without a client', async () => {
+    await expect(new SchemaBuilder().dropTable('t').execute()).rejects.toThrow(
+      'Cannot execute a SchemaBuilder created without a client.',
+    );
+  });
+
+  it('executes the statements one at a time', async () => {
+    const query = jest.fn().mockResolvedValue([]);
+    const client: any = { getIdentifierOptions: () => ({}), query };
+    await new SchemaBuilder(client).dropIndex('idx_a').dropTable('t').execute();
+    expect(query.mock.calls).toEqual([['DROP INDEX idx_a'], ['DROP TABLE t']]);
+  });
+});
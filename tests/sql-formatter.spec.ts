@@ -0,0 +1,110 @@
+import { formatSql, toSqlLiteral } from '../src/utils';
+
+describe('toSqlLiteral', () => {
+  it('renders NULL, numbers, bigints and booleans', () => {
+    expect(toSqlLiteral(null)).toBe('NULL');
+    expect(toSqlLiteral(undefined)).toBe('NULL');
+    expect(toSqlLiteral(42)).toBe('42');
+    expect(toSqlLiteral(-1.5)).toBe('-1.5');
+    expect(toSqlLiteral(9007199254740993n)).toBe('9007199254740993');
+    expect(toSqlLiteral(true)).toBe('TRUE');
+    expect(toSqlLiteral(false)).toBe('FALSE');
+  });
+
+  it('escapes quotes in strings by doubling them', () => {
+    expect(toSqlLiteral("O'Brien")).toBe("'O''Brien'");
+    expect(toSqlLiteral("'; DROP TABLE users; --")).toBe(
+      "'''; DROP TABLE users; --'",
+    );
+    expect(toSqlLiteral('')).toBe("''");
+  });
+
+  it('renders objects as escaped JSON text', () => {
+    expect(toSqlLiteral({ name: "O'Brien", tags: [1] })).toBe(
+      `'{"name":"O''Brien","tags":[1]}'`,
+    );
+  });
+
+  it('renders dates as timestamps in local time', () => {
+    expect(toSqlLiteral(new Date(2024, 0, 31, 10, 15, 30, 123))).toBe(
+      "TIMESTAMP '2024-01-31 10:15:30.123000'",
+    );
+  });
+
+  it('renders buffers as binary string literals', () => {
+    expect(toSqlLiteral(Buffer.from([0x0a, 0xff]))).toBe("BX'0AFF'");
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(() => toSqlLiteral(NaN)).toThrow(
+      'Cannot inline the non-finite number NaN.',
+    );
+    expect(() => toSqlLiteral(Infinity)).toThrow(
+      'Cannot inline the non-finite number Infinity.',
+    );
+  });
+});
+
+describe('formatSql', () => {
+  it('returns the statement unchanged without options', () => {
+    expect(formatSql('SELECT * FROM t WHERE a = ?', [1])).toBe(
+      'SELECT * FROM t WHERE a = ?',
+    );
+  });
+
+  it('inlines parameters, skipping markers in literals and comments', () => {
+    expect(
+      formatSql(
+        "SELECT '?' AS q FROM t WHERE a = ? /* ? */ AND b = ?",
+        ["it's", null],
+        { inlineParams: true },
+      ),
+    ).toBe("SELECT '?' AS q FROM t WHERE a = 'it''s' /* ? */ AND b = NULL");
+  });
+
+  it('rejects a different number of markers and parameters', () => {
+    expect(() =>
+      formatSql('SELECT ? FROM t', [1, 2], { inlineParams: true }),
+    ).toThrow(
+      'Cannot inline parameters: the statement has 1 markers but 2 parameters were given.',
+    );
+    expect(() =>
+      formatSql('SELECT ?, ? FROM t', [1], { inlineParams: true }),
+    ).toThrow(
+      'Cannot inline parameters: the statement has more markers than the 1 parameters given.',
+    );
+  });
+
+  it('starts clauses on new lines and indents subqueries', () => {
+    expect(
+      formatSql(
+        'SELECT id FROM users WHERE id IN (SELECT user_id FROM orders WHERE total > ?) ORDER BY id',
+        [],
+        { pretty: true },
+      ),
+    ).toBe(
+      [
+        'SELECT id',
+        'FROM users',
+        'WHERE id IN (',
+        '  SELECT user_id',
+        '  FROM orders',
+        '  WHERE total > ?',
+        ')',
+        'ORDER BY id',
+      ].join('\n'),
+    );
+  });
+
+  it('keeps clauses inside other parentheses and literals inline', () => {
+    expect(
+      formatSql(
+        "SELECT ROW_NUMBER() OVER (ORDER BY id) AS n, 'FROM x' AS s FROM t",
+        [],
+        { pretty: true },
+      ),
+    ).toBe(
+      "SELECT ROW_NUMBER() OVER (ORDER BY id) AS n, 'FROM x' AS s\nFROM t",
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import { ColumnMetadata } from '../src/orm/interfaces/column.interfaces';
+import { ValueConverter } from '../src/orm/value-converter';
+
+describe('ValueConverter', () => {
+  const converter = new ValueConverter();
+  const column = (
+    type: string,
+    options: Partial<ColumnMetadata> = {},
+  ): ColumnMetadata => ({ propertyKey: 'value', type, ...options });
+  const roundTrip = (metadata: ColumnMetadata, value: any) =>
+    converter.fromDatabase(metadata, converter.toDatabase(metadata, value));
+
+  it('stores booleans as 1 and 0', () => {
+    const active = column('boolean');
+    expect(converter.toDatabase(active, true)).toBe(1);
+    expect(converter.toDatabase(active, false)).toBe(0);
+    expect(converter.fromDatabase(active, 1)).toBe(true);
+    expect(converter.fromDatabase(active, '0')).toBe(false);
+    expect(roundTrip(active, true)).toBe(true);
+  });
+
+  it('stores dates and timestamps in local time', () => {
+    const date = new Date(2024, 0, 31);
+    const timestamp = new Date(2024, 0, 31, 10, 15, 30, 123);
+    expect(converter.toDatabase(column('date'), date)).toBe('2024-01-31');
+    expect(converter.toDatabase(column('timestamp'), timestamp)).toBe(
+      '2024-01-31 10:15:30.123000',
+    );
+    expect(
+      converter.fromDatabase(column('timestamp'), '2024-01-31-10.15.30.123456'),
+    ).toEqual(timestamp);
+    expect(roundTrip(column('date'), date)).toEqual(date);
+    expect(roundTrip(column('timestamp'), timestamp)).toEqual(timestamp);
+  });
+
+  it('keeps the digits of bigints and decimals', () => {
+    expect(roundTrip(column('bigint'), 9007199254740993n)).toBe(
+      9007199254740993n,
+    );
+    expect(converter.toDatabase(column('decimal', { scale: 2 }), 12.5)).toBe(
+      '12.50',
+    );
+    expect(
+      roundTrip(column('decimal', { precision: 15, scale: 2 }), 12.5),
+    ).toBe(12.5);
+    expect(
+      roundTrip(column('decimal', { precision: 31 }), '12345678901234567.89'),
+    ).toBe('12345678901234567.89');
+    expect(converter.fromDatabase(column('DECIMAL(31, 2)'), 1.5)).toBe('1.5');
+    expect(converter.fromDatabase(column('decfloat'), '0.1')).toBe('0.1');
+    expect(() => converter.toDatabase(column('decimal'), Infinity)).toThrow(
+      "Column 'value' cannot store Infinity.",
+    );
+  });
+
+  it('stores JSON as text and binary values as buffers', () => {
+    const settings = { theme: 'dark', tags: ['a'] };
+    expect(converter.toDatabase(column('json'), settings)).toBe(
+      '{"theme":"dark","tags":["a"]}',
+    );
+    expect(roundTrip(column('json'), settings)).toEqual(settings);
+
+    const bytes = new Uint8Array([1, 2, 255]);
+    const stored = converter.toDatabase(column('blob'), bytes);
+    expect(Buffer.isBuffer(stored)).toBe(true);
+    expect(roundTrip(column('blob'), bytes)).toEqual(Buffer.from(bytes));
+  });
+
+  it('passes NULL and unknown types through', () => {
+    expect(converter.toDatabase(column('boolean'), null)).toBeNull();
+    expect(converter.fromDatabase(column('json'), null)).toBeNull();
+    expect(converter.toDatabase(column('varchar'), 'text')).toBe('text');
+  });
+
+  it('runs transformers on top of the type conversion, including NULL', () => {
+    const cents = column('integer', {
+      transformer: {
+        to: (value: number | null) => (value === null ? 0 : value * 100),
+        from: (value: number | null) => (value === null ? null : value / 100),
+      },
+    });
+    expect(converter.toDatabase(cents, 1.25)).toBe(125);
+    expect(converter.toDatabase(cents, null)).toBe(0);
+    expect(converter.fromDatabase(cents, '125')).toBe(1.25);
+    expect(converter.fromDatabase(cents, null)).toBeNull();
+
+    const flag = column('boolean', {
+      transformer: {
+        to: (value: string) => value === 'on',
+        from: (value: boolean) => (value ? 'on' : 'off'),
+      },
+    });
+    expect(converter.toDatabase(flag, 'on')).toBe(1);
+    expect(converter.fromDatabase(flag, 0)).toBe('off');
+  });
+
+  it('rejects values that do not match the column type', () => {
+    expect(() =>
+      converter.toDatabase(column('boolean', { name: 'active' }), 'maybe'),
+    ).toThrow("Column 'active' expects a boolean, got 'maybe'.");
+    expect(() => converter.fromDatabase(column('json'), '{oops')).toThrow(
+      "Column 'value' does not contain valid JSON",
+    );
+    expect(() => converter.fromDatabase(column('date'), 'not a date')).toThrow(
+      "Column 'value' does not contain a valid date: 'not a date'.",
+    );
+  });
+});